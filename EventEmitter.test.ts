@@ -1,5 +1,16 @@
 import { EventEmitter } from "./EventEmitter.ts";
-import { assert, assertRejects, assertStrictEquals, fail } from "@std/assert";
+import { AbortError, TimeoutError, ValidationError } from "./errors.ts";
+import { Codec } from "./codec.ts";
+import type { StandardSchema, TraceEntry } from "./types.ts";
+import {
+  assert,
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+  assertStrictEquals,
+  assertThrows,
+  fail,
+} from "@std/assert";
 
 const waitForTimeout = (
   fn: (args?: unknown[]) => void | Promise<void>,
@@ -57,6 +68,18 @@ Deno.test("EventEmitter", async (ctx) => {
         assertStrictEquals(reserved, "reserved");
       });
     });
+
+    await ctx.step("iterating is possible", async () => {
+      const instance = new Implementing();
+
+      for await (const reserved of instance.events("reserved2")) {
+        assertEquals(reserved, ["reserved2"]);
+
+        break;
+      }
+
+      assertStrictEquals(instance.getListeners("reserved2").size, 0);
+    });
   });
 });
 
@@ -243,7 +266,298 @@ Deno.test("EventEmitter base functions", async (ctx) => {
       await ctx.step("should reject", async () => {
         const target = new EventEmitter<Events>();
 
-        await assertRejects(() => target.pull("foo", 10));
+        await assertRejects(() => target.pull("foo", 10), TimeoutError);
+
+        assertEquals(target.getListeners("foo").size, 0);
+      });
+
+      await ctx.step("as option", async () => {
+        const target = new EventEmitter<Events>();
+
+        await assertRejects(
+          () => target.pull("foo", { timeout: 10 }),
+          TimeoutError,
+        );
+      });
+    });
+
+    await ctx.step("with filter", async () => {
+      const target = new EventEmitter<Events>();
+
+      const promise = target.pull("adjustCount", {
+        filter: (detail) => detail === "decrement",
+      });
+
+      target.emit("adjustCount", "increment");
+
+      target.emit("adjustCount", "decrement");
+
+      assertStrictEquals(await promise, "decrement");
+      assertEquals(target.getListeners("adjustCount").size, 0);
+    });
+
+    await ctx.step("with signal", async () => {
+      const target = new EventEmitter<Events>();
+
+      const controller = new AbortController();
+
+      const promise = target.pull("foo", { signal: controller.signal });
+
+      controller.abort("stop");
+
+      const error = await assertRejects(() => promise, AbortError);
+
+      assertStrictEquals(error.cause, "stop");
+      assertEquals(target.getListeners("foo").size, 0);
+
+      await assertRejects(
+        () => target.pull("foo", { signal: controller.signal }),
+        AbortError,
+      );
+    });
+  });
+
+  await ctx.step("emitAsync", async (ctx) => {
+    await ctx.step("parallel", async () => {
+      const target = new EventEmitter<Events>();
+
+      const calls: string[] = [];
+
+      target.on("foo", async () => {
+        calls.push("start 1");
+
+        await waitForTimeout(() => {}, 10);
+
+        calls.push("end 1");
+      });
+
+      target.addEventListener("foo", async ({ detail }) => {
+        calls.push("start 2");
+
+        await waitForTimeout(() => {}, 1);
+
+        calls.push(`end 2 ${detail}`);
+      });
+
+      const result = await target.emitAsync("foo", "bar");
+
+      assertStrictEquals(result, target);
+
+      assertEquals(calls, ["start 1", "start 2", "end 2 bar", "end 1"]);
+    });
+
+    await ctx.step("serial", async () => {
+      const target = new EventEmitter<Events>();
+
+      const calls: string[] = [];
+
+      target.on("foo", async () => {
+        calls.push("start 1");
+
+        await waitForTimeout(() => {}, 10);
+
+        calls.push("end 1");
+      });
+
+      target.once("foo", async () => {
+        calls.push("start 2");
+
+        await waitForTimeout(() => {}, 1);
+
+        calls.push("end 2");
+      });
+
+      await target.emitAsync("foo", "bar", { mode: "serial" });
+
+      assertEquals(calls, ["start 1", "end 1", "start 2", "end 2"]);
+
+      assertStrictEquals(target.getListeners("foo").size, 1);
+    });
+
+    await ctx.step("rejects with AggregateError", async () => {
+      for (const mode of ["parallel", "serial"] as const) {
+        const target = new EventEmitter<Events>();
+
+        const error1 = new Error("1"), error2 = new Error("2");
+
+        let called = false;
+
+        target.on("baz", () => {
+          throw error1;
+        });
+
+        target.on("baz", async () => {
+          await waitForTimeout(() => {}, 1);
+
+          throw error2;
+        });
+
+        target.on("baz", () => {
+          called = true;
+        });
+
+        const error = await assertRejects(
+          () => target.emitAsync("baz", undefined, { mode }),
+          AggregateError,
+        );
+
+        assertInstanceOf(error, AggregateError);
+
+        assertEquals(error.errors, [error1, error2]);
+
+        assert(called);
+      }
+    });
+
+    await ctx.step(
+      "listeners removed by a previous one aren't called",
+      async () => {
+        for (const mode of ["parallel", "serial"] as const) {
+          const target = new EventEmitter<Events>();
+
+          const calls: string[] = [];
+
+          const second = () => {
+            calls.push("second");
+          };
+
+          target.on("foo", async () => {
+            calls.push("first");
+
+            target.off("foo", second);
+
+            await waitForTimeout(() => {}, 1);
+          }).on("foo", second);
+
+          await target.emitAsync("foo", "bar", { mode });
+
+          assertEquals(calls, ["first"]);
+        }
+      },
+    );
+  });
+
+  await ctx.step("events", async (ctx) => {
+    await ctx.step("buffers details", async () => {
+      const target = new EventEmitter<Events>();
+
+      const iterator = target.events("adjustCount");
+
+      target.emit("adjustCount", "increment");
+
+      target.emit("adjustCount", "decrement");
+
+      const details: string[] = [];
+
+      for await (const detail of iterator) {
+        details.push(detail);
+
+        if (details.length === 2) {
+          waitForTimeout(() => {
+            target.emit("adjustCount", "increment");
+          }, 1);
+        }
+
+        if (details.length === 3) {
+          break;
+        }
+      }
+
+      assertEquals(details, ["increment", "decrement", "increment"]);
+
+      assertStrictEquals(target.getListeners("adjustCount").size, 0);
+    });
+
+    await ctx.step("overflow", async (ctx) => {
+      await ctx.step("drop-oldest", async () => {
+        const target = new EventEmitter<Events>();
+
+        const iterator = target.events("adjustCount", {
+          bufferSize: 1,
+          overflow: "drop-oldest",
+        });
+
+        target.emit("adjustCount", "increment");
+
+        target.emit("adjustCount", "decrement");
+
+        assertEquals(await iterator.next(), {
+          value: "decrement",
+          done: false,
+        });
+
+        await iterator.return!();
+      });
+
+      await ctx.step("drop-newest", async () => {
+        const target = new EventEmitter<Events>();
+
+        const iterator = target.events("adjustCount", {
+          bufferSize: 1,
+          overflow: "drop-newest",
+        });
+
+        target.emit("adjustCount", "increment");
+
+        target.emit("adjustCount", "decrement");
+
+        assertEquals(await iterator.next(), {
+          value: "increment",
+          done: false,
+        });
+
+        await iterator.return!();
+      });
+
+      await ctx.step("error", async () => {
+        const target = new EventEmitter<Events>();
+
+        const iterator = target.events("adjustCount", { bufferSize: 1 });
+
+        target.emit("adjustCount", "increment");
+
+        target.emit("adjustCount", "decrement");
+
+        assertStrictEquals(target.getListeners("adjustCount").size, 0);
+
+        assertEquals(await iterator.next(), {
+          value: "increment",
+          done: false,
+        });
+
+        await assertRejects(() => iterator.next(), Error, "overflowed");
+
+        assertEquals(await iterator.next(), { value: undefined, done: true });
+      });
+    });
+
+    await ctx.step("signal", async (ctx) => {
+      await ctx.step("abort stops the iteration", async () => {
+        const target = new EventEmitter<Events>();
+
+        const controller = new AbortController();
+
+        const iterator = target.events("foo", { signal: controller.signal });
+
+        const promise = iterator.next();
+
+        controller.abort(new Error("aborted"));
+
+        await assertRejects(() => promise, Error, "aborted");
+
+        assertStrictEquals(target.getListeners("foo").size, 0);
+      });
+
+      await ctx.step("already aborted signal", async () => {
+        const target = new EventEmitter<Events>();
+
+        const iterator = target.events("foo", {
+          signal: AbortSignal.abort(),
+        });
+
+        assertStrictEquals(target.getListeners("foo").size, 0);
+
+        await assertRejects(() => iterator.next());
       });
     });
   });
@@ -392,4 +706,2175 @@ Deno.test("EventEmitter base functions", async (ctx) => {
 
     assertStrictEquals(count, 1);
   });
+
+  await ctx.step('"unsubscribe" function can be used with "using"', () => {
+    const target = new EventEmitter<Events>();
+
+    let count = 0;
+
+    {
+      using _subscription = target.subscribe("adjustCount", () => {
+        count++;
+      });
+
+      target.publish("adjustCount", "increment");
+    }
+
+    target.publish("adjustCount", "increment");
+
+    assertStrictEquals(count, 1);
+  });
+});
+
+Deno.test("patterns", async (ctx) => {
+  type NamespacedEvents = {
+    "user.created": { id: number };
+    "user.deleted": { id: number; reason: string };
+    "user.role.changed": string;
+    "order.paid": number;
+  };
+
+  await ctx.step("* matches one segment", () => {
+    const target = new EventEmitter<NamespacedEvents>();
+
+    const calls: [string, unknown][] = [];
+
+    target.on("user.*", (type, detail) => {
+      if (type === "user.deleted") {
+        // the detail is narrowed by the type
+        calls.push([type, detail.reason]);
+      } else {
+        calls.push([type, detail.id]);
+      }
+    });
+
+    target.emit("user.created", { id: 1 });
+
+    target.emit("user.deleted", { id: 1, reason: "spam" });
+
+    target.emit("user.role.changed", "admin");
+
+    target.emit("order.paid", 10);
+
+    assertEquals(calls, [["user.created", 1], ["user.deleted", "spam"]]);
+  });
+
+  await ctx.step("** matches any number of segments", () => {
+    const target = new EventEmitter<NamespacedEvents>();
+
+    const all: string[] = [];
+
+    const user: string[] = [];
+
+    target.on("**", (type, _detail) => {
+      all.push(type);
+    });
+
+    target.on("user.**", (type, _detail) => {
+      user.push(type);
+    });
+
+    target.emit("user.created", { id: 1 });
+
+    target.emit("user.role.changed", "admin");
+
+    target.emit("order.paid", 10);
+
+    assertEquals(all, ["user.created", "user.role.changed", "order.paid"]);
+
+    assertEquals(user, ["user.created", "user.role.changed"]);
+  });
+
+  await ctx.step("listeners of the event are called first", () => {
+    const target = new EventEmitter<NamespacedEvents>();
+
+    const calls: string[] = [];
+
+    target.on("user.*", () => {
+      calls.push("pattern");
+    });
+
+    target.on("user.created", () => {
+      calls.push("exact");
+    });
+
+    target.emit("user.created", { id: 1 });
+
+    assertEquals(calls, ["exact", "pattern"]);
+  });
+
+  await ctx.step("once", () => {
+    const target = new EventEmitter<NamespacedEvents>();
+
+    let count = 0;
+
+    target.once("user.*", () => {
+      count++;
+    });
+
+    target.emit("user.created", { id: 1 });
+
+    target.emit("user.deleted", { id: 1, reason: "spam" });
+
+    assertStrictEquals(count, 1);
+
+    assertStrictEquals(target.getListeners("user.*").size, 0);
+  });
+
+  await ctx.step("off", async (ctx) => {
+    await ctx.step("specific listener", () => {
+      const target = new EventEmitter<NamespacedEvents>();
+
+      const callback = () => fail();
+
+      target.on("user.*", callback);
+
+      target.off("user.*", callback);
+
+      target.emit("user.created", { id: 1 });
+
+      assertStrictEquals(target.getListeners("user.*").size, 0);
+    });
+
+    await ctx.step("all listeners of matching events", () => {
+      const target = new EventEmitter<NamespacedEvents>();
+
+      let count = 0;
+
+      target.on("user.created", () => fail());
+
+      target.on("user.*", () => fail());
+
+      target.on("order.paid", () => count++);
+
+      target.off("user.*");
+
+      target.emit("user.created", { id: 1 });
+
+      target.emit("order.paid", 10);
+
+      assertStrictEquals(count, 1);
+
+      assertEquals([...target.getListeners().keys()], ["order.paid"]);
+    });
+
+    await ctx.step("and add a listener again", () => {
+      const target = new EventEmitter<NamespacedEvents>();
+
+      let count = 0;
+
+      const callback = () => {
+        count++;
+      };
+
+      target.on("user.*", callback);
+
+      target.off("user.*", callback);
+
+      target.emit("user.created", { id: 1 });
+
+      target.on("user.*", callback);
+
+      target.emit("user.deleted", { id: 1, reason: "spam" });
+
+      assertStrictEquals(count, 1);
+    });
+  });
+
+  await ctx.step("getListeners", () => {
+    const target = new EventEmitter<NamespacedEvents>();
+
+    const pattern = () => {}, created = () => {}, paid = () => {};
+
+    target.on("user.*", pattern);
+
+    target.on("user.created", created);
+
+    target.on("order.paid", paid);
+
+    assertEquals([...target.getListeners("user.created")], [created, pattern]);
+
+    assertEquals([...target.getListeners("user.*")], [pattern, created]);
+
+    assertEquals([...target.getListeners("order.paid")], [paid]);
+  });
+
+  await ctx.step("emitAsync awaits listeners of patterns", async () => {
+    const target = new EventEmitter<NamespacedEvents>();
+
+    let done = false;
+
+    target.on("order.*", async () => {
+      await waitForTimeout(() => {}, 1);
+
+      done = true;
+    });
+
+    await target.emitAsync("order.paid", 10);
+
+    assert(done);
+  });
+});
+
+Deno.test("any-listeners", async (ctx) => {
+  type ReservedEvents = {
+    connection: { name: string };
+  };
+
+  type UserEvents = {
+    message: string;
+  };
+
+  class Implementing extends EventEmitter<UserEvents, ReservedEvents> {
+    connect(name: string) {
+      this.emitReserved("connection", { name });
+    }
+
+    receive(type: string, detail: unknown) {
+      this.emitUntyped(type, detail);
+    }
+  }
+
+  await ctx.step("called for every event", () => {
+    const target = new Implementing();
+
+    const calls: [string, unknown][] = [];
+
+    target.onAny((type, detail) => {
+      if (type === "connection") {
+        // the detail is narrowed by the type
+        calls.push([type, detail.name]);
+      } else {
+        calls.push([type, detail]);
+      }
+    });
+
+    target.emit("message", "hello");
+
+    target.connect("Apollo");
+
+    target.receive("untyped", 1);
+
+    target.dispatchEvent(EventEmitter.createEvent("raw", 2));
+
+    // not a CustomEvent
+    target.dispatchEvent(new Event("message"));
+
+    assertEquals(calls, [
+      ["message", "hello"],
+      ["connection", "Apollo"],
+      ["untyped", 1],
+      ["raw", 2],
+    ]);
+  });
+
+  await ctx.step("called before the listeners of the event", () => {
+    const target = new EventEmitter<Events>();
+
+    const calls: string[] = [];
+
+    target.on("foo", () => {
+      calls.push("on");
+    });
+
+    target.onAny(() => {
+      calls.push("onAny");
+    });
+
+    target.emit("foo", "bar");
+
+    assertEquals(calls, ["onAny", "on"]);
+  });
+
+  await ctx.step("onceAny", () => {
+    const target = new EventEmitter<Events>();
+
+    let count = 0;
+
+    target.onceAny(() => {
+      count++;
+    });
+
+    target.emit("foo", "bar").emit("bar", "bar");
+
+    assertStrictEquals(count, 1);
+
+    assertStrictEquals(target.getAnyListeners().size, 0);
+  });
+
+  await ctx.step("prependAny", () => {
+    const target = new EventEmitter<Events>();
+
+    const calls: number[] = [];
+
+    const first = () => {
+      calls.push(1);
+    };
+
+    const second = () => {
+      calls.push(2);
+    };
+
+    target.onAny(second).prependAny(first);
+
+    target.emit("baz");
+
+    assertEquals(calls, [1, 2]);
+
+    assertEquals([...target.getAnyListeners()], [first, second]);
+  });
+
+  await ctx.step("offAny", () => {
+    const target = new EventEmitter<Events>();
+
+    const callback = () => fail();
+
+    target.onAny(callback).onAny(() => fail());
+
+    target.offAny(callback);
+
+    assertStrictEquals(target.getAnyListeners().size, 1);
+
+    target.offAny();
+
+    target.emit("foo", "bar");
+
+    assertStrictEquals(target.getAnyListeners().size, 0);
+  });
+
+  await ctx.step("reported separately from getListeners", () => {
+    const target = new EventEmitter<Events>();
+
+    const callback = () => {};
+
+    target.onAny(callback).on("foo", callback);
+
+    assertStrictEquals(target.getListeners().size, 1);
+
+    assert(target.getAnyListeners().has(callback));
+
+    target.off();
+
+    assertStrictEquals(target.getAnyListeners().size, 0);
+  });
+
+  await ctx.step("emitAsync awaits any-listeners", async () => {
+    const target = new EventEmitter<Events>();
+
+    let done = false;
+
+    target.onAny(async () => {
+      await waitForTimeout(() => {}, 1);
+
+      done = true;
+    });
+
+    await target.emitAsync("foo", "bar");
+
+    assert(done);
+  });
+});
+
+Deno.test("priorities", async (ctx) => {
+  await ctx.step("higher priorities are called first", () => {
+    const target = new EventEmitter<Events>();
+
+    const calls: string[] = [];
+
+    target.on("foo", () => {
+      calls.push("on");
+    });
+
+    target.addEventListener("foo", () => {
+      calls.push("addEventListener");
+    }, { priority: 10 });
+
+    target.once("foo", () => {
+      calls.push("once");
+    }, { priority: 5 });
+
+    target.subscribe("foo", () => {
+      calls.push("subscribe");
+    }, { priority: -1 });
+
+    target.on("foo", () => {
+      calls.push("on 2");
+    });
+
+    target.emit("foo", "bar");
+
+    assertEquals(calls, [
+      "addEventListener",
+      "once",
+      "on",
+      "on 2",
+      "subscribe",
+    ]);
+
+    calls.length = 0;
+
+    target.emit("foo", "bar");
+
+    assertEquals(calls, ["addEventListener", "on", "on 2", "subscribe"]);
+  });
+
+  await ctx.step("prependListener", () => {
+    const target = new EventEmitter<Events>();
+
+    const calls: string[] = [];
+
+    target.on("foo", () => {
+      calls.push("on");
+    });
+
+    target.on("foo", () => {
+      calls.push("validation");
+    }, { priority: 1 });
+
+    target.prependListener("foo", () => {
+      calls.push("prepended");
+    });
+
+    target.prependOnceListener("foo", () => {
+      calls.push("prepended once");
+    });
+
+    target.emit("foo", "bar").emit("foo", "bar");
+
+    assertEquals(calls, [
+      "validation",
+      "prepended once",
+      "prepended",
+      "on",
+      "validation",
+      "prepended",
+      "on",
+    ]);
+  });
+
+  await ctx.step("getListeners returns the execution order", () => {
+    const target = new EventEmitter<Events>();
+
+    const first = () => {}, second = () => {}, third = () => {};
+
+    target
+      .on("foo", third, { priority: -5 })
+      .on("foo", second)
+      .addEventListener("foo", first, { priority: 5 });
+
+    assertEquals([...target.getListeners("foo")], [first, second, third]);
+  });
+
+  await ctx.step("listeners added while dispatching don't skip others", () => {
+    const target = new EventEmitter<Events>();
+
+    const calls: string[] = [];
+
+    target.on("foo", () => {
+      calls.push("A");
+
+      target.on("foo", () => {
+        calls.push("C");
+      }, { priority: 10 });
+    });
+
+    target.on("foo", () => {
+      calls.push("B");
+    });
+
+    target.emit("foo", "bar");
+
+    assertEquals(calls, ["A", "B"]);
+
+    calls.length = 0;
+
+    target.emit("foo", "bar");
+
+    assertEquals(calls, ["C", "A", "B"]);
+  });
+
+  await ctx.step("listeners removed while dispatching aren't called", () => {
+    const target = new EventEmitter<Events>();
+
+    const calls: string[] = [];
+
+    const second = () => {
+      calls.push("second");
+    };
+
+    target.on("foo", () => {
+      calls.push("first");
+
+      target.off("foo", second);
+    }).on("foo", second);
+
+    target.emit("foo", "bar");
+
+    assertEquals(calls, ["first"]);
+  });
+
+  await ctx.step("patterns are sorted by priority as well", () => {
+    const target = new EventEmitter<{ "user.created": string }>();
+
+    const calls: string[] = [];
+
+    const exact = () => {
+      calls.push("exact");
+    };
+
+    const pattern = () => {
+      calls.push("pattern");
+    };
+
+    const late = () => {
+      calls.push("late");
+    };
+
+    target
+      .on("user.created", exact)
+      .on("user.*", pattern, { priority: 100 })
+      .on("**", late);
+
+    target.emit("user.created", "a");
+
+    assertEquals(calls, ["pattern", "exact", "late"]);
+    assertEquals([...target.getListeners("user.created")], [
+      pattern,
+      exact,
+      late,
+    ]);
+  });
+
+  await ctx.step("listeners of several patterns are merged", () => {
+    const target = new EventEmitter<{ "user.created": string }>();
+
+    const calls: string[] = [];
+
+    const push = (name: string) => () => {
+      calls.push(name);
+    };
+
+    target
+      .on("user.created", push("exact"))
+      .on("**", push("any low"), { priority: -1 })
+      .on("user.*", push("user"))
+      .on("**", push("any high"), { priority: 2 })
+      .on("user.*", push("user high"), { priority: 1 })
+      .on("user.created", push("exact high"), { priority: 2 });
+
+    target.emit("user.created", "a");
+
+    assertEquals(calls, [
+      "exact high",
+      "any high",
+      "user high",
+      "exact",
+      "user",
+      "any low",
+    ]);
+  });
+
+  await ctx.step("emitAsync respects priorities", async () => {
+    const target = new EventEmitter<Events>();
+
+    const calls: string[] = [];
+
+    target.on("foo", async () => {
+      await waitForTimeout(() => {}, 1);
+
+      calls.push("low");
+    });
+
+    target.on("foo", async () => {
+      await waitForTimeout(() => {}, 5);
+
+      calls.push("high");
+    }, { priority: 1 });
+
+    await target.emitAsync("foo", "bar", { mode: "serial" });
+
+    assertEquals(calls, ["high", "low"]);
+  });
+
+  await ctx.step("adding a callback again replaces it", () => {
+    const target = new EventEmitter<Events>();
+
+    const calls: string[] = [];
+
+    const callback = () => {
+      calls.push("callback");
+    };
+
+    target.on("foo", callback).on("foo", () => {
+      calls.push("other");
+    });
+
+    target.on("foo", callback, { priority: 1 });
+
+    target.emit("foo", "bar");
+
+    assertEquals(calls, ["callback", "other"]);
+
+    target.off("foo", callback);
+
+    target.emit("foo", "bar");
+
+    assertEquals(calls, ["callback", "other", "other"]);
+  });
+
+  await ctx.step("capture listeners are removed without options", () => {
+    const target = new EventEmitter<Events>();
+
+    const callback = () => fail();
+
+    target.on("foo", callback, { capture: true });
+
+    target.off("foo", callback);
+
+    target.emit("foo", "bar");
+  });
+});
+
+Deno.test("middleware", async (ctx) => {
+  type ReservedEvents = {
+    connection: { name: string };
+  };
+
+  type UserEvents = {
+    message: string;
+    count: number;
+  };
+
+  class Implementing extends EventEmitter<UserEvents, ReservedEvents> {
+    connect(name: string) {
+      this.emitReserved("connection", { name });
+    }
+
+    receive(type: string, detail: unknown) {
+      this.emitUntyped(type, detail);
+    }
+  }
+
+  await ctx.step("transforms the detail", () => {
+    const target = new EventEmitter<UserEvents>();
+
+    let message: string | undefined;
+
+    target.use((context, next) => {
+      if (context.type === "message") {
+        context.detail = context.detail.toUpperCase();
+      }
+
+      next();
+    });
+
+    target.on("message", (detail) => {
+      message = detail;
+    });
+
+    target.emit("message", "hello");
+
+    assertStrictEquals(message, "HELLO");
+  });
+
+  await ctx.step("vetoes the event", () => {
+    const target = new EventEmitter<UserEvents>();
+
+    const counts: number[] = [];
+
+    target.use((context, next) => {
+      if (context.type === "count" && context.detail < 0) {
+        return;
+      }
+
+      next();
+    });
+
+    target.on("count", (detail) => {
+      counts.push(detail);
+    });
+
+    target.emit("count", 1).emit("count", -1).emit("count", 2);
+
+    assertEquals(counts, [1, 2]);
+  });
+
+  await ctx.step("runs code after the dispatch in order", () => {
+    const target = new EventEmitter<UserEvents>();
+
+    const calls: string[] = [];
+
+    target
+      .use((_context, next) => {
+        calls.push("before 1");
+
+        next();
+
+        calls.push("after 1");
+      })
+      .use((_context, next) => {
+        calls.push("before 2");
+
+        next();
+
+        calls.push("after 2");
+      });
+
+    target.on("message", () => {
+      calls.push("listener");
+    });
+
+    target.emit("message", "hello");
+
+    assertEquals(calls, [
+      "before 1",
+      "before 2",
+      "listener",
+      "after 2",
+      "after 1",
+    ]);
+  });
+
+  await ctx.step("wraps every way of emitting", async () => {
+    const target = new Implementing();
+
+    const contexts: [string, unknown, boolean][] = [];
+
+    target.use((context, next) => {
+      contexts.push([context.type, context.detail, context.reserved]);
+
+      next();
+    });
+
+    target.emit("message", "emit");
+
+    target.dispatch("message", "dispatch");
+
+    target.publish("message", "publish");
+
+    await target.emitAsync("message", "emitAsync");
+
+    target.connect("Apollo");
+
+    target.receive("untyped", 1);
+
+    assertEquals(contexts, [
+      ["message", "emit", false],
+      ["message", "dispatch", false],
+      ["message", "publish", false],
+      ["message", "emitAsync", false],
+      ["connection", { name: "Apollo" }, true],
+      ["untyped", 1, false],
+    ]);
+  });
+
+  await ctx.step("calling next multiple times throws", () => {
+    const target = new EventEmitter<UserEvents>();
+
+    target.use((_context, next) => {
+      next();
+
+      next();
+    });
+
+    assertThrows(
+      () => target.emit("message", "hello"),
+      Error,
+      "next() called multiple times",
+    );
+  });
+});
+
+Deno.test("error policy", async (ctx) => {
+  type UserEvents = {
+    message: string;
+  };
+
+  await ctx.step("report calls the other listeners", () => {
+    const target = new EventEmitter<UserEvents>();
+
+    const reported: unknown[] = [];
+    const calls: string[] = [];
+
+    const onError = (event: ErrorEvent) => {
+      event.preventDefault();
+
+      reported.push(event.error);
+    };
+
+    globalThis.addEventListener("error", onError);
+
+    const error = new Error("first");
+
+    try {
+      target.on("message", () => {
+        throw error;
+      });
+
+      target.on("message", (detail) => {
+        calls.push(detail);
+      });
+
+      target.emit("message", "hello");
+    } finally {
+      globalThis.removeEventListener("error", onError);
+    }
+
+    assertEquals(calls, ["hello"]);
+    assertEquals(reported, [error]);
+  });
+
+  await ctx.step("rethrow-after-all throws after all listeners", () => {
+    const target = new EventEmitter<UserEvents>({
+      errorPolicy: "rethrow-after-all",
+    });
+
+    const calls: string[] = [];
+
+    target.on("message", () => {
+      throw new Error("first");
+    });
+
+    target.on("message", (detail) => {
+      calls.push(detail);
+    });
+
+    target.on("message", () => {
+      throw new Error("second");
+    });
+
+    const error = assertThrows(
+      () => target.emit("message", "hello"),
+      AggregateError,
+      '2 listener(s) of "message" failed',
+    );
+
+    assertEquals(calls, ["hello"]);
+    assertEquals(
+      error.errors.map((error: Error) => error.message),
+      ["first", "second"],
+    );
+  });
+
+  await ctx.step("emit-error emits the error event", async () => {
+    const target = new EventEmitter<UserEvents>({ errorPolicy: "emit-error" });
+
+    const errors: unknown[] = [];
+    const calls: string[] = [];
+
+    const error = new Error("sync");
+
+    const throwing = () => {
+      throw error;
+    };
+
+    target.on("error", (detail) => {
+      errors.push(detail);
+    });
+
+    target.on("message", throwing);
+
+    target.on("message", (detail) => {
+      calls.push(detail);
+    });
+
+    target.emit("message", "hello");
+
+    assertEquals(calls, ["hello"]);
+    assertEquals(errors, [{
+      error,
+      type: "message",
+      detail: "hello",
+      listener: throwing,
+    }]);
+
+    target.off("message");
+
+    const rejection = new Error("async");
+
+    target.on("message", () => Promise.reject(rejection));
+
+    target.emit("message", "hello");
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    assertStrictEquals(
+      (errors[1] as { error: unknown }).error,
+      rejection,
+    );
+  });
+
+  await ctx.step("emit-error throws without error listeners", () => {
+    const target = new EventEmitter<UserEvents>({ errorPolicy: "emit-error" });
+
+    const calls: string[] = [];
+
+    const error = new Error("unhandled");
+
+    target.on("message", () => {
+      throw error;
+    });
+
+    target.on("message", (detail) => {
+      calls.push(detail);
+    });
+
+    const thrown = assertThrows(() => target.emit("message", "hello"));
+
+    assertStrictEquals(thrown, error);
+    assertEquals(calls, ["hello"]);
+  });
+
+  await ctx.step("emitAsync still rejects with all errors", async () => {
+    const target = new EventEmitter<UserEvents>({ errorPolicy: "emit-error" });
+
+    let called = false;
+
+    target.on("error", () => {
+      called = true;
+    });
+
+    target.on("message", () => {
+      throw new Error("failed");
+    });
+
+    await assertRejects(
+      () => target.emitAsync("message", "hello"),
+      AggregateError,
+    );
+
+    assert(!called);
+  });
+});
+
+Deno.test("maxListeners", async (ctx) => {
+  type UserEvents = {
+    message: string;
+    other: number;
+  };
+
+  await ctx.step("defaults to defaultMaxListeners", () => {
+    const target = new EventEmitter<UserEvents>();
+
+    assertEquals(target.getMaxListeners(), EventEmitter.defaultMaxListeners);
+    assertEquals(
+      target.getMaxListeners("message"),
+      EventEmitter.defaultMaxListeners,
+    );
+  });
+
+  await ctx.step("per-event limits override the global one", () => {
+    const target = new EventEmitter<UserEvents>({ maxListeners: 5 });
+
+    target.setMaxListeners("message", 2);
+
+    assertEquals(target.getMaxListeners(), 5);
+    assertEquals(target.getMaxListeners("message"), 2);
+    assertEquals(target.getMaxListeners("other"), 5);
+
+    assertThrows(() => target.setMaxListeners(-1), RangeError);
+  });
+
+  await ctx.step("warns once when the limit is exceeded", () => {
+    const warnings: string[] = [];
+    const details: unknown[] = [];
+
+    const target = new EventEmitter<UserEvents>({
+      maxListeners: 2,
+      onWarning: (message) => warnings.push(message),
+    });
+
+    target.on("maxListenersExceeded", (detail) => {
+      details.push(detail);
+    });
+
+    for (let i = 0; i < 5; i++) {
+      target.on("message", () => {});
+    }
+
+    assertEquals(warnings.length, 1);
+    assertEquals(details.length, 1);
+
+    const detail = details[0] as {
+      type: string;
+      count: number;
+      max: number;
+      stack?: string;
+    };
+
+    assertEquals(detail.type, "message");
+    assertEquals(detail.count, 3);
+    assertEquals(detail.max, 2);
+    assert(detail.stack?.includes("EventEmitter.test.ts"));
+  });
+
+  await ctx.step("0 disables the warning", () => {
+    const warnings: string[] = [];
+
+    const target = new EventEmitter<UserEvents>({
+      onWarning: (message) => warnings.push(message),
+    });
+
+    target.setMaxListeners(0);
+
+    for (let i = 0; i < EventEmitter.defaultMaxListeners + 1; i++) {
+      target.on("message", () => {});
+    }
+
+    assertEquals(warnings, []);
+  });
+});
+
+Deno.test("validators", async (ctx) => {
+  const isString = (detail: unknown): detail is string =>
+    typeof detail === "string";
+
+  const positive: StandardSchema<number> = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value) =>
+        typeof value === "number" && value > 0
+          ? { value: Math.round(value) }
+          : { issues: [{ message: "must be a positive number" }] },
+    },
+  };
+
+  await ctx.step("infers the events from the validators", () => {
+    const target = new EventEmitter({
+      validators: { message: isString, count: positive },
+    });
+
+    const details: unknown[] = [];
+
+    target.on("message", (detail) => {
+      details.push(detail.toUpperCase());
+    });
+
+    target.emit("message", "hello");
+
+    // @ts-expect-error <the detail of count is a number>
+    assertThrows(() => target.emit("count", "1"), ValidationError);
+
+    assertEquals(details, ["HELLO"]);
+  });
+
+  await ctx.step("throws and doesn't dispatch invalid details", () => {
+    const target = new EventEmitter<Record<string, unknown>>({
+      validators: { message: isString },
+    });
+
+    let called = false;
+
+    target.on("message", () => {
+      called = true;
+    });
+
+    const error = assertThrows(
+      () => target.emit("message", 1),
+      ValidationError,
+      'Invalid detail for "message"',
+    );
+
+    assertEquals(error.type, "message");
+    assertEquals(error.detail, 1);
+    assert(!called);
+  });
+
+  await ctx.step("dispatches the value of a schema", async () => {
+    const target = new EventEmitter({ validators: { count: positive } });
+
+    const counts: number[] = [];
+
+    target.on("count", (count) => {
+      counts.push(count);
+    });
+
+    target.emit("count", 1.2);
+
+    await target.emitAsync("count", 2.7);
+
+    await assertRejects(
+      () => target.emitAsync("count", -1),
+      ValidationError,
+      "must be a positive number",
+    );
+
+    assertEquals(counts, [1, 3]);
+  });
+
+  await ctx.step("validates untyped events", () => {
+    class Receiving extends EventEmitter {
+      receive(type: string, detail: unknown) {
+        this.emitUntyped(type, detail);
+      }
+    }
+
+    const target = new Receiving({ validators: { message: isString } });
+
+    assertThrows(() => target.receive("message", {}), ValidationError);
+  });
+
+  await ctx.step("emits validationFailed", () => {
+    const target = new EventEmitter({
+      validators: { message: isString },
+      onInvalid: "emit",
+    });
+
+    assertThrows(
+      () => target.emit("message", 1 as unknown as string),
+      ValidationError,
+    );
+
+    const failures: unknown[] = [];
+
+    target.on("validationFailed", (failure) => {
+      failures.push(failure);
+    });
+
+    target.emit("message", 1 as unknown as string);
+
+    assertEquals(failures, [{
+      type: "message",
+      detail: 1,
+      issues: [{ message: "rejected by the validator" }],
+    }]);
+  });
+});
+
+Deno.test("replay", async (ctx) => {
+  type UserEvents = {
+    ready: boolean;
+    log: string;
+    other: number;
+  };
+
+  await ctx.step("new listeners receive the last details", () => {
+    const target = new EventEmitter<UserEvents>({
+      replay: { ready: 1, log: 2 },
+    });
+
+    target.emit("ready", true);
+    target.emit("log", "a");
+    target.emit("log", "b");
+    target.emit("log", "c");
+    target.emit("other", 1);
+
+    const calls: unknown[] = [];
+
+    target.on("ready", (detail) => {
+      calls.push(detail);
+    });
+
+    target.subscribe("log", (detail) => {
+      calls.push(detail);
+    });
+
+    target.on("other", (detail) => {
+      calls.push(detail);
+    });
+
+    assertEquals(calls, [true, "b", "c"]);
+    assertEquals(target.getHistory("log"), ["b", "c"]);
+    assertEquals(target.getHistory("other"), []);
+  });
+
+  await ctx.step("once receives only one detail", () => {
+    const target = new EventEmitter<UserEvents>({ replay: { log: 2 } });
+
+    target.emit("log", "a");
+    target.emit("log", "b");
+
+    const calls: string[] = [];
+
+    target.once("log", (detail) => {
+      calls.push(detail);
+    });
+
+    target.emit("log", "c");
+
+    assertEquals(calls, ["a"]);
+  });
+
+  await ctx.step("pull resolves immediately on sticky events", async () => {
+    const target = new EventEmitter<UserEvents>({ replay: { ready: 1 } });
+
+    target.emit("ready", true);
+
+    assertStrictEquals(await target.pull("ready", { timeout: 10 }), true);
+    assertEquals(target.getListeners("ready").size, 0);
+  });
+
+  await ctx.step("pull resolves with the most recent detail", async () => {
+    const target = new EventEmitter<UserEvents>({ replay: { log: 3 } });
+
+    target.emit("log", "a");
+    target.emit("log", "b");
+    target.emit("log", "c");
+
+    assertStrictEquals(await target.pull("log", { timeout: 10 }), "c");
+    assertStrictEquals(
+      await target.pull("log", {
+        timeout: 10,
+        filter: (detail) => detail !== "c",
+      }),
+      "b",
+    );
+    assertEquals(target.getListeners("log").size, 0);
+  });
+
+  await ctx.step("emitAsync records the details", async () => {
+    const target = new EventEmitter<UserEvents>({ replay: { ready: 1 } });
+
+    await target.emitAsync("ready", true);
+
+    assertEquals(target.getHistory("ready"), [true]);
+    assertStrictEquals(await target.pull("ready", { timeout: 10 }), true);
+  });
+
+  await ctx.step("clearHistory", () => {
+    const target = new EventEmitter<UserEvents>({
+      replay: { ready: 1, log: 1 },
+    });
+
+    target.emit("ready", true);
+    target.emit("log", "a");
+
+    target.clearHistory("ready");
+
+    assertEquals(target.getHistory("ready"), []);
+    assertEquals(target.getHistory("log"), ["a"]);
+
+    target.clearHistory();
+
+    assertEquals(target.getHistory("log"), []);
+  });
+});
+
+Deno.test("pipe", async (ctx) => {
+  type ChildEvents = {
+    click: { x: number };
+    close: undefined;
+    count: number;
+  };
+
+  type ParentEvents = {
+    childClick: { x: number };
+    close: undefined;
+    label: string;
+  };
+
+  await ctx.step("forwards with renaming and transforms", () => {
+    const child = new EventEmitter<ChildEvents>();
+    const parent = new EventEmitter<ParentEvents>();
+
+    const calls: unknown[] = [];
+
+    parent.on("childClick", (detail) => calls.push(detail));
+    parent.on("close", () => calls.push("close"));
+    parent.on("label", (detail) => calls.push(detail));
+
+    const unpipe = child.pipe(parent, {
+      events: ["click", "close", "count"],
+      rename: { click: "childClick", count: "label" },
+      transform: { count: (count) => `${count} items` },
+    });
+
+    child.emit("click", { x: 1 });
+    child.emit("close");
+    child.emit("count", 2);
+
+    unpipe();
+
+    child.emit("close");
+
+    assertEquals(calls, [{ x: 1 }, "close", "2 items"]);
+    assertEquals(child.getListeners("click").size, 0);
+  });
+
+  await ctx.step("checks the details", () => {
+    const child = new EventEmitter<ChildEvents>();
+    const parent = new EventEmitter<ParentEvents>();
+
+    // @ts-expect-error <the parent has no click event>
+    child.pipe(parent, { events: ["click"] })();
+
+    // @ts-expect-error <count needs a transform>
+    child.pipe(parent, { events: ["count"], rename: { count: "label" } })();
+
+    child.pipe(parent, {
+      events: ["count"],
+      rename: { count: "label" },
+      // @ts-expect-error <the transform must return a string>
+      transform: { count: (count) => count },
+    })();
+  });
+
+  await ctx.step("forwards reserved events if accepted", () => {
+    type ReservedEvents = { childClosed: undefined; other: undefined };
+
+    class Parent extends EventEmitter<ParentEvents, ReservedEvents> {
+      protected override acceptsPipedReserved(type: string): boolean {
+        return type === "childClosed";
+      }
+    }
+
+    const child = new EventEmitter<ChildEvents>();
+    const parent = new Parent();
+
+    let closed = false;
+
+    parent.on("childClosed", () => {
+      closed = true;
+    });
+
+    child.pipe(parent, {
+      events: ["close"],
+      rename: { close: "childClosed" },
+      reserved: true,
+    });
+
+    child.emit("close");
+
+    assert(closed);
+
+    assertThrows(
+      () =>
+        child.pipe(parent, {
+          events: ["close"],
+          rename: { close: "other" },
+          reserved: true,
+        }),
+      TypeError,
+      'doesn\'t accept the reserved event "other"',
+    );
+  });
+});
+
+Deno.test("cancelable events", async (ctx) => {
+  type UserEvents = {
+    "user.delete": { id: number };
+  };
+
+  await ctx.step("listeners added with on can cancel the event", () => {
+    const target = new EventEmitter<UserEvents>();
+
+    target.on("user.delete", ({ id }, control) => {
+      assert(control.cancelable);
+
+      if (id === 1) {
+        control.preventDefault();
+      }
+    });
+
+    assert(!target.emitCancelable("user.delete", { id: 1 }));
+    assert(target.emitCancelable("user.delete", { id: 2 }));
+  });
+
+  await ctx.step("events emitted with emit can't be canceled", () => {
+    const target = new EventEmitter<UserEvents>();
+
+    let prevented: boolean | undefined;
+
+    target.on("user.delete", (_detail, control) => {
+      control.preventDefault();
+
+      prevented = control.defaultPrevented;
+    });
+
+    target.emit("user.delete", { id: 1 });
+
+    assertStrictEquals(prevented, false);
+  });
+
+  await ctx.step("stopImmediatePropagation", () => {
+    const target = new EventEmitter<UserEvents>();
+
+    const calls: string[] = [];
+
+    target.on("user.delete", (_detail, control) => {
+      calls.push("first");
+
+      control.stopImmediatePropagation();
+    });
+
+    target.on("user.delete", () => {
+      calls.push("second");
+    });
+
+    target.on("user.*", () => {
+      calls.push("pattern");
+    });
+
+    target.emit("user.delete", { id: 1 });
+
+    assertEquals(calls, ["first"]);
+  });
+
+  await ctx.step("vetoed events count as canceled", () => {
+    const target = new EventEmitter<UserEvents>();
+
+    target.use(() => {});
+
+    assert(!target.emitCancelable("user.delete", { id: 1 }));
+  });
+});
+
+Deno.test("hierarchy", async (ctx) => {
+  type ChildEvents = {
+    "item.click": { id: number };
+  };
+
+  type ParentEvents = ChildEvents & {
+    "list.clear": undefined;
+  };
+
+  await ctx.step("capture, target and bubble phase", () => {
+    const root = new EventEmitter<ParentEvents>();
+    const parent = new EventEmitter<ParentEvents>();
+    const child = new EventEmitter<ChildEvents>();
+
+    root.attach(parent);
+    parent.attach(child);
+
+    const calls: string[] = [];
+
+    root.on("item.click", () => calls.push("root bubble"));
+    root.on("item.click", () => calls.push("root capture"), { capture: true });
+    parent.on("item.click", () => calls.push("parent bubble"));
+    parent.on(
+      "item.click",
+      () => calls.push("parent capture"),
+      { capture: true },
+    );
+    child.on("item.click", () => calls.push("child"));
+
+    child.emit("item.click", { id: 1 }, { bubbles: true });
+
+    assertEquals(calls, [
+      "root capture",
+      "parent capture",
+      "child",
+      "parent bubble",
+      "root bubble",
+    ]);
+
+    calls.length = 0;
+
+    child.emit("item.click", { id: 1 });
+
+    assertEquals(calls, ["root capture", "parent capture", "child"]);
+  });
+
+  await ctx.step("target and currentTarget", () => {
+    const parent = new EventEmitter<ParentEvents>();
+    const child = new EventEmitter<ChildEvents>();
+
+    parent.attach(child);
+
+    const phases: unknown[][] = [];
+
+    parent.on("item.click", (_detail, control) => {
+      phases.push([control.target, control.currentTarget, control.eventPhase]);
+    });
+    parent.addEventListener("item.click", (event) => {
+      phases.push([event.target, event.currentTarget, event.eventPhase]);
+    }, { capture: true });
+    child.on("item.click", (_detail, control) => {
+      phases.push([control.target, control.currentTarget, control.eventPhase]);
+    });
+
+    child.emit("item.click", { id: 1 }, { bubbles: true });
+
+    assertStrictEquals(phases.length, 3);
+    assertEquals(phases[0], [child, parent, Event.CAPTURING_PHASE]);
+    assertEquals(phases[1], [child, child, Event.AT_TARGET]);
+    assertEquals(phases[2], [child, parent, Event.BUBBLING_PHASE]);
+  });
+
+  await ctx.step("stopPropagation", () => {
+    const parent = new EventEmitter<ParentEvents>();
+    const child = new EventEmitter<ChildEvents>();
+
+    parent.attach(child);
+
+    const calls: string[] = [];
+
+    child.on("item.click", (_detail, control) => {
+      calls.push("first");
+
+      control.stopPropagation();
+    });
+    child.on("item.click", () => calls.push("second"));
+    parent.on("item.click", () => calls.push("parent"));
+
+    child.emit("item.click", { id: 1 }, { bubbles: true });
+
+    assertEquals(calls, ["first", "second"]);
+
+    calls.length = 0;
+
+    parent.on("item.click", (_detail, control) => {
+      calls.push("capture");
+
+      control.stopPropagation();
+    }, { capture: true });
+
+    child.emit("item.click", { id: 1 }, { bubbles: true });
+
+    assertEquals(calls, ["capture"]);
+  });
+
+  await ctx.step("a parent can cancel the event", () => {
+    const parent = new EventEmitter<ParentEvents>();
+    const child = new EventEmitter<ChildEvents>();
+
+    parent.attach(child);
+
+    parent.on("item.click", (_detail, control) => control.preventDefault());
+
+    assert(!child.emitCancelable("item.click", { id: 1 }, { bubbles: true }));
+    assert(child.emitCancelable("item.click", { id: 1 }));
+  });
+
+  await ctx.step("boundaries and composed events", () => {
+    const root = new EventEmitter<ParentEvents>();
+    const parent = new EventEmitter<ParentEvents>();
+    const child = new EventEmitter<ChildEvents>();
+
+    root.attach(parent, { boundary: true });
+    parent.attach(child);
+
+    const calls: string[] = [];
+
+    root.on("item.click", () => calls.push("root"));
+    parent.on("item.click", () => calls.push("parent"));
+
+    child.emit("item.click", { id: 1 }, { bubbles: true });
+
+    assertEquals(calls, ["parent"]);
+
+    calls.length = 0;
+
+    child.emit("item.click", { id: 1 }, { bubbles: true, composed: true });
+
+    assertEquals(calls, ["parent", "root"]);
+  });
+
+  await ctx.step("pattern and any-listeners of the parent", () => {
+    const parent = new EventEmitter<ParentEvents>();
+    const child = new EventEmitter<ChildEvents>();
+
+    parent.attach(child);
+
+    const calls: string[] = [];
+
+    parent.onAny((type, _detail) => calls.push(`any ${type}`));
+    parent.on("item.*", (type, _detail) => calls.push(`pattern ${type}`));
+
+    child.emit("item.click", { id: 1 }, { bubbles: true });
+
+    assertEquals(calls, ["any item.click", "pattern item.click"]);
+  });
+
+  await ctx.step("detach", () => {
+    const parent = new EventEmitter<ParentEvents>();
+    const child = new EventEmitter<ChildEvents>();
+
+    parent.attach(child);
+
+    assertStrictEquals(child.getParent(), parent);
+
+    parent.detach(child);
+
+    assertStrictEquals(child.getParent(), undefined);
+
+    parent.on("item.click", () => fail());
+
+    child.emit("item.click", { id: 1 }, { bubbles: true });
+  });
+
+  await ctx.step("cycles throw", () => {
+    const parent = new EventEmitter<ParentEvents>();
+    const child = new EventEmitter<ParentEvents>();
+
+    parent.attach(child);
+
+    assertThrows(() => child.attach(parent), TypeError);
+    assertThrows(() => child.setParent(child), TypeError);
+  });
+
+  await ctx.step("errors of the parent's listeners are thrown", () => {
+    const parent = new EventEmitter<ParentEvents>({
+      errorPolicy: "rethrow-after-all",
+    });
+    const child = new EventEmitter<ChildEvents>();
+
+    parent.attach(child);
+
+    let called = false;
+
+    parent.on("item.click", () => {
+      throw new Error("parent");
+    });
+    child.on("item.click", () => {
+      called = true;
+    });
+
+    assertThrows(
+      () => child.emit("item.click", { id: 1 }, { bubbles: true }),
+      AggregateError,
+    );
+    assert(called);
+  });
+
+  await ctx.step("types", () => {
+    const parent = new EventEmitter<ChildEvents>();
+    const child = new EventEmitter<ParentEvents>();
+
+    // @ts-expect-error <the parent doesn't have the "list.clear" event>
+    parent.attach(child);
+    // @ts-expect-error <the parent doesn't have the "list.clear" event>
+    child.setParent(parent);
+  });
+});
+
+Deno.test("tracing", async (ctx) => {
+  type Events = {
+    save: { id: number };
+  };
+
+  await ctx.step("the trace of a dispatch", async () => {
+    const entries: TraceEntry[] = [];
+
+    const target = new EventEmitter<Events>({
+      errorPolicy: "rethrow-after-all",
+      trace: (entry) => entries.push(entry),
+    });
+
+    function validate() {}
+
+    target.on("save", validate);
+    target.on("save", () => {
+      throw new Error("failed");
+    }, { label: "store" });
+    target.on("save", async () => {
+      await Promise.resolve();
+    }, { label: "notify" });
+    target.onAny((_type, _detail) => {});
+
+    assertThrows(() => target.emit("save", { id: 1 }), AggregateError);
+
+    await waitForTimeout(() => {}, 0);
+
+    assertEquals(
+      entries.map(({ type, listener, async, error }) => [
+        type,
+        listener,
+        async,
+        error instanceof Error ? error.message : error,
+      ]),
+      [
+        ["save", "anonymous", false, undefined],
+        ["save", "validate", false, undefined],
+        ["save", "store", false, "failed"],
+        ["save", "notify", true, undefined],
+      ],
+    );
+
+    assert(entries.every(({ dispatch }) => dispatch === entries[0].dispatch));
+    assert(entries.every(({ duration }) => duration >= 0));
+    assert(!("error" in entries[0]));
+    assertEquals(
+      entries[0].size,
+      new Codec().encode({ type: "save", detail: { id: 1 } }).byteLength,
+    );
+
+    entries.length = 0;
+
+    target.off();
+    target.offAny();
+    target.on("save", validate);
+
+    target.emit("save", { id: 2 });
+    target.emit("save", { id: 3 });
+
+    assertEquals(entries.length, 2);
+    assert(entries[0].dispatch !== entries[1].dispatch);
+  });
+
+  await ctx.step("performance measures", () => {
+    const target = new EventEmitter<Events>({ performance: true });
+
+    target.on("save", () => {}, { label: "measured" });
+
+    target.emit("save", { id: 1 });
+
+    const [measure] = performance.getEntriesByName(
+      "save measured",
+      "measure",
+    ) as PerformanceMeasure[];
+
+    assertEquals(measure.entryType, "measure");
+    assertEquals((measure.detail as TraceEntry).listener, "measured");
+
+    performance.clearMeasures("save measured");
+  });
+
+  await ctx.step("performance measures of symbols and errors", () => {
+    const secret = Symbol("secret");
+
+    const target = new EventEmitter<{ [secret]: number; fail: undefined }>({
+      performance: true,
+      errorPolicy: "rethrow-after-all",
+    });
+
+    const cause = new Error("can't be cloned", { cause: () => {} });
+
+    target.on(secret, () => {}, { label: "measured" });
+    target.on("fail", () => {
+      throw cause;
+    }, { label: "measured" });
+
+    target.emit(secret, 1);
+
+    const error = assertThrows(() => target.emit("fail"), AggregateError);
+
+    assertStrictEquals(error.errors[0], cause);
+
+    const measures = performance.getEntriesByType(
+      "measure",
+    ) as PerformanceMeasure[];
+
+    assertEquals(
+      measures
+        .filter(({ name }) => name.endsWith(" measured"))
+        .map(({ detail }) => (detail as TraceEntry).type),
+      ["Symbol(secret)", "fail"],
+    );
+
+    performance.clearMeasures();
+  });
+});
+
+Deno.test("signals", async (ctx) => {
+  await ctx.step("aborting removes the listener", () => {
+    const target = new EventEmitter<Events>();
+    const controller = new AbortController();
+
+    let count = 0;
+
+    const listener = () => count++;
+
+    target.on("foo", listener, { signal: controller.signal });
+
+    target.emit("foo", "bar");
+
+    controller.abort();
+
+    target.emit("foo", "bar");
+
+    assertStrictEquals(count, 1);
+    assertEquals(target.getListeners("foo").size, 0);
+  });
+
+  await ctx.step("addEventListener", () => {
+    const target = new EventEmitter<Events>();
+    const controller = new AbortController();
+
+    target.addEventListener("foo", () => fail(), {
+      signal: controller.signal,
+    });
+
+    controller.abort();
+
+    target.emit("foo", "bar");
+
+    assertEquals(target.getListeners("foo").size, 0);
+  });
+
+  await ctx.step("an aborted signal skips the registration", () => {
+    const target = new EventEmitter<Events>();
+    const signal = AbortSignal.abort();
+
+    target.on("foo", () => fail(), { signal });
+    target.once("foo", () => fail(), { signal });
+    target.addEventListener("foo", () => fail(), { signal });
+    target.on("*", (_type, _detail) => fail(), { signal });
+
+    target.emit("foo", "bar");
+
+    assertEquals(target.getListeners("foo").size, 0);
+  });
+
+  await ctx.step("an aborted signal doesn't replace the listener", () => {
+    const target = new EventEmitter<Events>();
+
+    let count = 0;
+
+    const listener = () => count++;
+
+    target.on("foo", listener);
+    target.on("foo", listener, { signal: AbortSignal.abort() });
+
+    target.emit("foo", "bar");
+
+    assertStrictEquals(count, 1);
+  });
+
+  await ctx.step("one signal for multiple events", () => {
+    const target = new EventEmitter<Events>();
+    const controller = new AbortController();
+
+    target.on(["foo", "bar", "pong"], () => fail(), {
+      signal: controller.signal,
+    });
+
+    assertEquals(target.getListeners("bar").size, 1);
+
+    controller.abort();
+
+    target.emit("foo", "bar");
+    target.emit("bar", "bar");
+    target.emit("pong", "bar");
+
+    assertEquals(
+      [...target.getListeners()].filter(([, listeners]) => listeners.size > 0),
+      [],
+    );
+  });
+
+  await ctx.step("patterns", () => {
+    const target = new EventEmitter<Events>();
+    const controller = new AbortController();
+
+    target.on("*", (_type, _detail) => fail(), { signal: controller.signal });
+
+    controller.abort();
+
+    target.emit("foo", "bar");
+
+    assertEquals(target.getListeners("foo").size, 0);
+  });
+
+  await ctx.step("once", () => {
+    const target = new EventEmitter<Events>();
+    const controller = new AbortController();
+
+    let count = 0;
+
+    target.once("foo", () => count++, { signal: controller.signal });
+    target.addEventListener("bar", () => count++, {
+      once: true,
+      signal: controller.signal,
+    });
+
+    target.emit("foo", "bar");
+    target.emit("bar", "bar");
+
+    assertStrictEquals(count, 2);
+    assertEquals(target.getListeners("foo").size, 0);
+    assertEquals(target.getListeners("bar").size, 0);
+
+    target.once("foo", () => fail(), { signal: controller.signal });
+
+    controller.abort();
+
+    target.emit("foo", "bar");
+
+    assertEquals(target.getListeners("foo").size, 0);
+  });
+
+  await ctx.step(
+    "a listener added again isn't removed by the old signal",
+    () => {
+      const target = new EventEmitter<Events>();
+      const first = new AbortController();
+      const second = new AbortController();
+
+      let count = 0;
+
+      const listener = () => count++;
+
+      target.on("foo", listener, { signal: first.signal });
+      target.off("foo", listener);
+      target.on("foo", listener);
+
+      first.abort();
+
+      target.on("bar", listener, { signal: first.signal });
+      target.on("bar", listener, { signal: second.signal });
+
+      target.emit("foo", "bar");
+      target.emit("bar", "bar");
+
+      assertStrictEquals(count, 2);
+
+      second.abort();
+
+      target.emit("bar", "bar");
+
+      assertStrictEquals(count, 2);
+      assertEquals(target.getListeners("bar").size, 0);
+    },
+  );
+
+  await ctx.step("once listeners emitting their own event run once", () => {
+    const target = new EventEmitter<Events>();
+
+    let count = 0;
+
+    target.once("foo", (detail) => {
+      count++;
+      target.emit("foo", detail);
+    });
+
+    target.addEventListener("bar", () => {
+      count++;
+      target.emit("bar", "bar");
+    }, { once: true });
+
+    target.emit("foo", "bar");
+    target.emit("bar", "bar");
+
+    assertStrictEquals(count, 2);
+    assertEquals(target.getListeners("foo").size, 0);
+    assertEquals(target.getListeners("bar").size, 0);
+  });
+});
+
+Deno.test("weak listeners", async (ctx) => {
+  type Events = {
+    resize: { width: number };
+  };
+
+  class Widget {
+    widths: number[] = [];
+
+    onResize({ width }: Events["resize"]) {
+      this.widths.push(width);
+    }
+  }
+
+  const gc = (globalThis as { gc?: () => void }).gc;
+
+  await ctx.step("the method is called with the owner as this", () => {
+    const target = new EventEmitter<Events>();
+    const widget = new Widget();
+
+    target.onWeak("resize", widget, "onResize");
+    target.onWeak("resize", widget, function ({ width }) {
+      this.widths.push(width * 2);
+    });
+
+    target.emit("resize", { width: 1 });
+
+    assertEquals(widget.widths, [1, 2]);
+    assertEquals(target.getListeners("resize").size, 2);
+  });
+
+  await ctx.step("offWeak", () => {
+    const target = new EventEmitter<Events>();
+    const widget = new Widget();
+    const other = new Widget();
+
+    target.onWeak("resize", widget, "onResize");
+    target.onWeak("resize", other, "onResize");
+
+    target.offWeak(widget);
+
+    target.emit("resize", { width: 1 });
+
+    assertEquals(widget.widths, []);
+    assertEquals(other.widths, [1]);
+    assertEquals(target.getListeners("resize").size, 1);
+
+    target.off("resize");
+
+    target.emit("resize", { width: 2 });
+
+    assertEquals(other.widths, [1]);
+  });
+
+  await ctx.step("signal", () => {
+    const target = new EventEmitter<Events>();
+    const widget = new Widget();
+
+    target.onWeak("resize", widget, "onResize", {
+      signal: AbortSignal.abort(),
+    });
+
+    target.emit("resize", { width: 1 });
+
+    assertEquals(widget.widths, []);
+    assertEquals(target.getListeners("resize").size, 0);
+  });
+
+  await ctx.step({
+    name: "the listener is removed, when the owner is garbage-collected",
+    ignore: !gc,
+    fn: async () => {
+      const target = new EventEmitter<Events>();
+
+      (() => {
+        target.onWeak("resize", new Widget(), "onResize");
+      })();
+
+      assertEquals(target.getListeners("resize").size, 1);
+
+      // a WeakRef keeps its target alive until the end of the current job
+      await waitForTimeout(() => {}, 0);
+
+      gc!();
+
+      // the FinalizationRegistry calls its callback in a later task
+      await waitForTimeout(() => {}, 0);
+
+      assertEquals(target.getListeners("resize").size, 0);
+
+      target.emit("resize", { width: 1 });
+    },
+  });
+
+  await ctx.step({
+    name: "getListeners doesn't include listeners of collected owners",
+    ignore: !gc,
+    fn: async () => {
+      const target = new EventEmitter<Events>();
+
+      (() => {
+        target.onWeak("resize", new Widget(), "onResize");
+      })();
+
+      await waitForTimeout(() => {}, 0);
+
+      gc!();
+
+      assertEquals(target.getListeners("resize").size, 0);
+    },
+  });
+});
+
+Deno.test("event names", async (ctx) => {
+  const secret = Symbol("secret");
+  const other = Symbol("secret");
+
+  type Events = {
+    [secret]: number;
+    [other]: string;
+    [row: `row:${number}:changed`]: { value: string };
+    "user.created": string;
+  };
+
+  await ctx.step("symbols", async (ctx) => {
+    await ctx.step("on and emit", () => {
+      const target = new EventEmitter<Events>();
+      const calls: unknown[] = [];
+
+      target.on(secret, (detail) => {
+        calls.push(detail);
+      });
+
+      target.on(other, (detail) => {
+        calls.push(detail);
+      });
+
+      target.emit(secret, 1);
+      target.emit(other, "a");
+
+      assertEquals(calls, [1, "a"]);
+      assertEquals(target.getListeners(secret).size, 1);
+      assertEquals([...target.getListeners().keys()], [secret, other]);
+    });
+
+    await ctx.step("pull", async () => {
+      const target = new EventEmitter<Events>();
+
+      const promise = target.pull(secret, { timeout: 10 });
+
+      target.emit(secret, 2);
+
+      assertStrictEquals(await promise, 2);
+    });
+
+    await ctx.step("off", () => {
+      const target = new EventEmitter<Events>();
+      let calls = 0;
+
+      const listener = () => {
+        calls++;
+      };
+
+      target.on(secret, listener);
+      target.on(other, listener);
+
+      target.off(secret, listener);
+      target.emit(secret, 1);
+
+      assertEquals(calls, 0);
+
+      target.off([other]);
+      target.emit(other, "a");
+
+      assertEquals(calls, 0);
+      assertEquals(target.getListeners(secret).size, 0);
+      assertEquals(target.getListeners(other).size, 0);
+    });
+
+    await ctx.step("any-listeners and patterns get the symbol", () => {
+      const target = new EventEmitter<Events>();
+      const calls: unknown[] = [];
+
+      target.onAny((type, detail) => {
+        calls.push([type, detail]);
+      });
+
+      // symbols aren't namespaced, so they don't match patterns
+      target.on("**", () => {
+        calls.push("pattern");
+      });
+
+      target.emit(secret, 1);
+
+      assertEquals(calls, [[secret, 1]]);
+    });
+
+    await ctx.step("replay", () => {
+      const target = new EventEmitter<Events>({ replay: { [secret]: 1 } });
+
+      target.emit(secret, 1);
+
+      assertEquals(target.getHistory(secret), [1]);
+    });
+
+    await ctx.step("can't be encoded", () => {
+      assertThrows(
+        () => new Codec<Events>().stringify({ type: secret, detail: 1 }),
+        TypeError,
+      );
+    });
+  });
+
+  await ctx.step("template literal keys", () => {
+    const target = new EventEmitter<Events>();
+    const calls: unknown[] = [];
+
+    target.on("row:3:changed", (detail) => {
+      calls.push(detail.value);
+    });
+
+    target.emit("row:3:changed", { value: "a" });
+    target.emit("row:4:changed", { value: "b" });
+
+    assertEquals(calls, ["a"]);
+
+    target.off("row:3:changed");
+
+    assertEquals(target.getListeners("row:3:changed").size, 0);
+
+    // @ts-expect-error <the row has to be a number>
+    target.on("row:a:changed", () => {});
+    // @ts-expect-error <the detail of rows is an object>
+    target.emit("row:3:changed", "a");
+  });
 });
@@ -1,20 +1,67 @@
 import type {
+  AcceptsBubbledEvents,
+  AnyListener,
+  BuiltInReservedEvents,
+  CustomEventDetailAndOptionsParameters,
   CustomEventDetailParameter,
+  CustomEventListenerEntry,
   CustomEventListenerMap,
   CustomEventMap,
+  EmitAsyncOptions,
+  EmitContext,
+  EmitOptions,
+  ErrorPolicy,
+  EventControl,
+  EventEmitterOptions,
+  EventNamePattern,
   EventNames,
-  EventTargetCompatible,
+  EventsOptions,
   EvName,
   Fn,
+  ListenerErrorDetail,
+  ListenerOptions,
+  MatchingEventNames,
+  MaxListenersExceededDetail,
+  Middleware,
+  ParentOptions,
+  PatternListener,
+  PipeOptions,
+  PipeRename,
+  PullOptions,
+  ReservedOrUserEventDetail,
   ReservedOrUserEventNames,
   ReservedOrUserListenerAddEventListener,
   ReservedOrUserListenerAddEventListenerParams,
   ReservedOrUserListenerOn,
   ReservedOrUserListenerOnOrAddEventListener,
-  ReservedOrUserListenerOnParams,
+  ScopeOptions,
+  TraceEntry,
   TypedCustomEvent,
   TypedEventBroadcaster,
+  Unsubscribe,
+  ValidationIssue,
+  ValidationPolicy,
+  Validator,
+  WeakListenerMethod,
 } from "./types.ts";
+import { isPattern, matchesPattern } from "./pattern.ts";
+import { fromEventType, toEventType } from "./names.ts";
+import { AbortError, TimeoutError, ValidationError } from "./errors.ts";
+import { Codec } from "./codec.ts";
+import { EmitterEvent } from "./event.ts";
+import { EventStream } from "./stream.ts";
+import { EventScope } from "./scope.ts";
+
+/**
+ * the reserved events every emitter can dispatch
+ */
+export const builtInReservedEvents: {
+  [Ev in EventNames<BuiltInReservedEvents>]: true;
+} = {
+  error: true,
+  maxListenersExceeded: true,
+  validationFailed: true,
+};
 
 /**
  * Strictly typed version of an `EventEmitter`. A `TypedEventEmitter` takes type
@@ -43,6 +90,210 @@ export class EventEmitter<
     CustomEventListenerMap<ReservedEvents, UserEvents>
   > = new Map();
 
+  /**
+   * @var __sortedListeners__ The entries of the {@link __listeners__} Maps, sorted by priority.
+   * This is the order the callbacks of an event are called in
+   */
+  protected __sortedListeners__: Map<
+    EvName,
+    CustomEventListenerEntry<ReservedEvents, UserEvents>[]
+  > = new Map();
+
+  /**
+   * @var __patterns__ The patterns with listeners in the {@link __listeners__} Map, in the order they were added.
+   * Dispatching an event only looks for matching patterns, if there are any
+   */
+  protected __patterns__: Set<EventNamePattern> = new Set();
+
+  /**
+   * @var __listenerOptions__ The priority and the options of the callbacks, that are the values of the {@link __listeners__} Map.
+   * They are needed to add the callbacks to the EventTarget again in the right order and to remove them with the right `capture` flag.
+   * `removeAbortListener` stops listening to the `signal` the callback was added with, when it is removed otherwise
+   */
+  protected __listenerOptions__: WeakMap<
+    object,
+    {
+      priority: number;
+      options?: boolean | AddEventListenerOptions;
+      removeAbortListener?: Fn<never[], void>;
+    }
+  > = new WeakMap();
+
+  /**
+   * @var __weakListeners__ The callbacks added with {@link onWeak}, the keys in the {@link __listeners__} Map,
+   * with the event name and a WeakRef of their owner
+   */
+  protected __weakListeners__: Map<
+    object,
+    { type: EvName; owner: WeakRef<object> }
+  > = new Map();
+
+  /**
+   * @var __collectedOwners__ Removes the callbacks added with {@link onWeak}, when their owner was garbage-collected
+   */
+  protected __collectedOwners__: FinalizationRegistry<object> =
+    new FinalizationRegistry((callback) => {
+      const weakListener = this.__weakListeners__.get(callback);
+
+      if (weakListener) {
+        // @ts-ignore <the callback was added to the event>
+        this.removeEventListener(weakListener.type, callback);
+      }
+    });
+
+  /**
+   * @var __anyListeners__ A Map with all listeners added via `onAny`, `onceAny` or `prependAny`.
+   * The key is the callback the user added, the value is the callback that gets called with the event
+   * (and optionally removes the callback from this Map, if it was passed to `onceAny`)
+   */
+  protected __anyListeners__: Map<
+    AnyListener<ReservedEvents, UserEvents>,
+    ReservedOrUserListenerAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      ReservedOrUserEventNames<ReservedEvents, UserEvents>
+    >
+  > = new Map();
+
+  /**
+   * @var __middleware__ the middleware added with `use`, in the order they are called
+   */
+  protected __middleware__: Middleware<ReservedEvents, UserEvents>[] = [];
+
+  /**
+   * @var __dispatchErrors__ A stack with the errors thrown synchronously by listeners, one entry per running `dispatchEvent` call.
+   * It is a stack, because listeners can dispatch events themselves
+   */
+  protected __dispatchErrors__: unknown[][] = [];
+
+  /**
+   * @var __asyncEvents__ The events dispatched by `emitAsync`. Their listeners' errors aren't handled by the {@link errorPolicy},
+   * because `emitAsync` collects them itself
+   */
+  protected __asyncEvents__: WeakSet<Event> = new WeakSet();
+
+  /**
+   * @var __stoppedEvents__ The events a listener called `stopImmediatePropagation` for.
+   * The EventTarget resets the flag after the dispatch, but the listeners of patterns are called after it
+   */
+  protected __stoppedEvents__: WeakSet<Event> = new WeakSet();
+
+  /**
+   * @var errorPolicy what to do, when a listener throws, see {@link ErrorPolicy}
+   */
+  protected errorPolicy: ErrorPolicy;
+
+  /**
+   * @var __validators__ the validators of the event details, passed to the constructor
+   */
+  protected __validators__: Partial<Record<EvName, Validator>>;
+
+  /**
+   * @var validationPolicy what to do, when the detail of an event is invalid, see {@link ValidationPolicy}
+   */
+  protected validationPolicy: ValidationPolicy;
+
+  /**
+   * @var __replay__ the number of details to keep per event, passed to the constructor
+   */
+  protected __replay__: Map<EvName, number>;
+
+  /**
+   * @var __history__ the last details of the events with a replay, the oldest first
+   */
+  protected __history__: Map<EvName, unknown[]> = new Map();
+
+  /**
+   * @var codec the codec `emitEncoded` decodes the events with
+   */
+  protected codec: Codec<UserEvents>;
+
+  /**
+   * @var __maxListeners__ the maximum number of listeners per event set for this emitter, {@link defaultMaxListeners} if undefined
+   */
+  protected __maxListeners__: number | undefined;
+
+  /**
+   * @var __maxListenersPerEvent__ the maximum number of listeners set for specific events, they override {@link __maxListeners__}
+   */
+  protected __maxListenersPerEvent__: Map<EvName, number> = new Map();
+
+  /**
+   * @var __warnedMaxListeners__ the events a warning was already emitted for, as it is only emitted once per event
+   */
+  protected __warnedMaxListeners__: Set<EvName> = new Set();
+
+  /**
+   * @var onWarning the sink the warning is passed to, when an event has more listeners than allowed
+   */
+  protected onWarning: NonNullable<EventEmitterOptions["onWarning"]>;
+
+  /**
+   * The maximum number of listeners per event of all emitters, that don't set their own limit with {@link setMaxListeners}.
+   * `0` and `Infinity` disable the warning
+   */
+  static defaultMaxListeners = 10;
+
+  /**
+   * @var trace called with a record of every call of a listener, see {@link EventEmitterOptions.trace}
+   */
+  protected trace: EventEmitterOptions["trace"];
+
+  /**
+   * @var tracePerformance whether a `performance.measure` is added for every call of a listener
+   */
+  protected tracePerformance: boolean;
+
+  /**
+   * @var __dispatches__ the number and the size of the events, whose listeners are traced
+   */
+  protected __dispatches__: WeakMap<
+    Event,
+    { dispatch: number; size: number | undefined }
+  > = new WeakMap();
+
+  /**
+   * @var __dispatchCount__ the number of the last traced dispatch
+   */
+  protected __dispatchCount__ = 0;
+
+  /**
+   * @var __parent__ the emitter, events emitted by this emitter are captured and bubble to, see {@link setParent}
+   */
+  // deno-lint-ignore no-explicit-any
+  protected __parent__: EventEmitter<any, any> | undefined;
+
+  /**
+   * @var __boundary__ whether only composed events are passed on to the {@link __parent__}
+   */
+  protected __boundary__ = false;
+
+  /**
+   * @param options Optional - options for the emitter, like the {@link ErrorPolicy}
+   */
+  constructor(options: EventEmitterOptions<UserEvents> = {}) {
+    super();
+
+    this.errorPolicy = options.errorPolicy ?? "report";
+    this.__validators__ = { ...options.validators } as Partial<
+      Record<EvName, Validator>
+    >;
+    this.validationPolicy = options.onInvalid ?? "throw";
+    this.codec = options.codec ?? new Codec();
+    const replay: Partial<Record<EvName, number>> = options.replay ?? {};
+    // `Object.entries` would skip symbols
+    this.__replay__ = new Map(
+      Reflect.ownKeys(replay).map((type) => [type, replay[type] as number]),
+    );
+    this.onWarning = options.onWarning ?? ((message) => console.warn(message));
+    this.trace = options.trace;
+    this.tracePerformance = options.performance ?? false;
+
+    if (options.maxListeners !== undefined) {
+      this.setMaxListeners(options.maxListeners);
+    }
+  }
+
   /**
    * create a typed CustomEvent, which will have a typed `type` property
    * @param type The type / name of the event, will be the `type` property
@@ -70,11 +321,14 @@ export class EventEmitter<
   ): TypedCustomEvent<Ev, Detail> {
     const evInit = { ...init, detail };
 
-    return new CustomEvent(type, evInit) as TypedCustomEvent<Ev, Detail>;
+    const event: CustomEvent = new EmitterEvent(toEventType(type), evInit);
+
+    return event as TypedCustomEvent<Ev, Detail>;
   }
 
   /**
-   * Creates a wrapper function around a given callback which passes the value of the `detail` property of a CustomEvent to the callback
+   * Creates a wrapper function around a given callback which passes the value of the `detail` property of a CustomEvent
+   * and an {@link EventControl} to the callback
    * @param callback the callback to wrap
    */
   protected passOnlyDetail<
@@ -88,8 +342,60 @@ export class EventEmitter<
         UserEvents,
         Ev
       >,
-    ): void => {
-      callback(event.detail);
+    ): void | Promise<void> => {
+      const control: EventControl = {
+        get cancelable() {
+          return event.cancelable;
+        },
+        get defaultPrevented() {
+          return event.defaultPrevented;
+        },
+        get target() {
+          return event.target;
+        },
+        get currentTarget() {
+          return event.currentTarget;
+        },
+        get eventPhase() {
+          return event.eventPhase;
+        },
+        preventDefault: () => event.preventDefault(),
+        stopPropagation: () => event.stopPropagation(),
+        stopImmediatePropagation: () => event.stopImmediatePropagation(),
+      };
+
+      return callback(event.detail, control);
+    }) as ReservedOrUserListenerAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >;
+
+    return call;
+  }
+
+  /**
+   * Creates a wrapper function around a given callback which passes the type and the value of the `detail` property of a CustomEvent to the callback.
+   * Used for listeners added with a pattern and any-listeners
+   * @param callback the callback to wrap
+   */
+  protected passTypeAndDetail<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+    Pattern extends EventNamePattern,
+  >(
+    callback:
+      | PatternListener<ReservedEvents, UserEvents, Pattern>
+      | AnyListener<ReservedEvents, UserEvents>,
+  ): ReservedOrUserListenerAddEventListener<ReservedEvents, UserEvents, Ev> {
+    const call = ((
+      event: ReservedOrUserListenerAddEventListenerParams<
+        ReservedEvents,
+        UserEvents,
+        Ev
+      >,
+    ): void | Promise<void> => {
+      // @ts-ignore <the type of the event matches the pattern>
+      return callback(fromEventType(event.type), event.detail);
     }) as ReservedOrUserListenerAddEventListener<
       ReservedEvents,
       UserEvents,
@@ -125,10 +431,11 @@ export class EventEmitter<
         UserEvents,
         Ev
       >,
-    ): void => {
-      callbackToCall(event);
-
+    ): void | Promise<void> => {
+      // removed before it is called, so that it isn't called again for events it emits itself
       this.removeEventListener(type, callbackToRemove);
+
+      return callbackToCall(event);
     }) as ReservedOrUserListenerAddEventListener<
       ReservedEvents,
       UserEvents,
@@ -138,154 +445,965 @@ export class EventEmitter<
     return cb;
   }
 
-  protected getOrCreateListeners<
-    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
-  >(type: Ev): CustomEventListenerMap<ReservedEvents, UserEvents, Ev> {
-    if (!this.__listeners__.has(type)) {
-      this.__listeners__.set(type, new Map());
+  /**
+   * Get the callbacks of an event and the ones added with a pattern matching it, sorted by priority.
+   * Callbacks of the event itself are called before the ones of patterns with the same priority
+   * @param type the event name
+   * @returns the entries of the {@link __listeners__} Maps, the callback the user added and the callback that is called
+   */
+  protected getListenerEntries(
+    type: EvName,
+  ): CustomEventListenerEntry<ReservedEvents, UserEvents>[] {
+    let entries = isPattern(type)
+      ? []
+      : [...this.__sortedListeners__.get(type) ?? []];
+
+    for (const pattern of this.__patterns__) {
+      if (matchesPattern(pattern, type)) {
+        entries = this.mergeListenerEntries(
+          entries,
+          this.__sortedListeners__.get(pattern) ?? [],
+        );
+      }
     }
 
-    return this.__listeners__.get(type)!;
+    return entries;
   }
+
   /**
-   * add a callback to an event or multiple events
-   * @param type the event name the callback should listen to
-   * @param callback the callback to execute when the event is dispatched
-   * @param options event options {@link EventTarget["addEventListener"]}
+   * merge two arrays of entries sorted by priority
+   * @returns the merged entries, the ones of `first` before the ones of `second` with the same priority
    */
-  // @ts-ignore <different implementation>
-  addEventListener<
+  protected mergeListenerEntries<Entry extends [unknown, object]>(
+    first: Entry[],
+    second: Entry[],
+  ): Entry[] {
+    const merged: Entry[] = [];
+
+    let i = 0, j = 0;
+
+    while (i < first.length && j < second.length) {
+      merged.push(
+        this.getPriority(first[i][1]) >= this.getPriority(second[j][1])
+          ? first[i++]
+          : second[j++],
+      );
+    }
+
+    return merged.concat(first.slice(i), second.slice(j));
+  }
+
+  /**
+   * @param listener a value of the {@link __listeners__} Maps
+   * @returns the priority the listener was added with
+   */
+  protected getPriority(listener: object): number {
+    return this.__listenerOptions__.get(listener)?.priority ?? 0;
+  }
+
+  /**
+   * The only listener added to the EventTarget for each event, it calls the callbacks of the event and of the patterns matching it.
+   * This way, adding or removing callbacks while an event is dispatched doesn't affect which of the others are called for it
+   * @param event the event dispatched by the EventTarget
+   */
+  protected dispatchListeners = (event: Event): void => {
+    const listeners = this.getListenerEntries(fromEventType(event.type))
+      .map(([, listener]) => listener);
+
+    for (const listener of listeners) {
+      if (this.__stoppedEvents__.has(event)) {
+        return;
+      }
+
+      // like the EventTarget, don't call callbacks removed by a previous one
+      if (this.__listenerOptions__.has(listener)) {
+        listener(event as Parameters<typeof listener>[0]);
+      }
+    }
+  };
+
+  /**
+   * Creates a wrapper function around a given listener which catches the errors it throws or the promise it returns rejects with,
+   * and handles them according to the {@link errorPolicy}
+   * @param callback the callback the user added, it is passed to the `error` event
+   * @param listener the listener to wrap
+   * @param label Optional - the name of the listener in {@link TraceEntry | trace entries}
+   */
+  protected guardListener<
     Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
   >(
-    type: Ev,
-    callback: ReservedOrUserListenerAddEventListener<
+    // deno-lint-ignore no-explicit-any
+    callback: Fn<any[], unknown>,
+    listener: ReservedOrUserListenerAddEventListener<
       ReservedEvents,
       UserEvents,
       Ev
     >,
-    options?: boolean | AddEventListenerOptions,
-  ): this {
-    let withOnce = callback;
+    label?: string,
+  ): ReservedOrUserListenerAddEventListener<ReservedEvents, UserEvents, Ev> {
+    const name = label ?? (callback.name || "anonymous");
 
-    if (typeof options !== "boolean" && options?.once) {
-      withOnce = this.removeAfterOneInvocation(type, callback);
-    }
+    const guarded = ((
+      event: ReservedOrUserListenerAddEventListenerParams<
+        ReservedEvents,
+        UserEvents,
+        Ev
+      >,
+    ): void | Promise<void> => {
+      // `emitAsync` collects the errors itself
+      if (this.__asyncEvents__.has(event)) {
+        return this.callTraced(listener, event, name);
+      }
 
-    super.addEventListener(
-      type,
-      withOnce as EventTargetCompatible,
-      options,
-    );
+      try {
+        const result = this.callTraced(listener, event, name);
 
-    this.getOrCreateListeners(type).set(callback, withOnce);
+        // `cancelBubble` is set by `stopPropagation` as well, but only an `EmitterEvent` can tell them apart
+        if (
+          (event as Event) instanceof EmitterEvent
+            ? (event as EmitterEvent).immediatePropagationStopped
+            : event.cancelBubble
+        ) {
+          this.__stoppedEvents__.add(event);
+        }
 
-    return this;
-  }
+        if (result instanceof Promise) {
+          return result.catch((error) =>
+            this.handleListenerError(error, event, callback, true)
+          );
+        }
 
-  /**
-   * add a callback to an event
-   * @param type the event name the callback should listen to
-   * @param callback the callback to execute when the event is dispatched
-   * @param options event options {@link EventTarget["addEventListener"]}
-   */
-  on<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
-    type: Ev,
-    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
-    options?: boolean | AddEventListenerOptions,
-  ): this;
+        return result;
+      } catch (error) {
+        this.handleListenerError(error, event, callback, false);
+      }
+    }) as ReservedOrUserListenerAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >;
+
+    return guarded;
+  }
 
   /**
-   * add a callback to multiple events
-   * @param types an array of the event names the callback should listen to
-   * @param callback the callback to execute when the event is dispatched
-   * @param options event options {@link EventTarget["addEventListener"]}
+   * Call a listener and record the call with a {@link TraceEntry}, if tracing is enabled
+   * @param listener the listener to call
+   * @param event the event to call it with
+   * @param name the name of the listener in the {@link TraceEntry}
+   * @returns what the listener returned
    */
-  on<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
-    types: Ev[],
-    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
-    options?: boolean | AddEventListenerOptions,
-  ): this;
+  protected callTraced<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    listener: ReservedOrUserListenerAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >,
+    event: ReservedOrUserListenerAddEventListenerParams<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >,
+    name: string,
+  ): void | Promise<void> {
+    if (!this.trace && !this.tracePerformance) {
+      return listener(event);
+    }
 
-  on<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
-    types: Ev | Ev[],
-    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
-    options?: boolean | AddEventListenerOptions,
-  ): this {
-    const detailOnly = this.passOnlyDetail(callback);
+    let dispatch = this.__dispatches__.get(event);
 
-    const addCallback = (type: Ev) => {
-      let withOnce = detailOnly;
+    if (!dispatch) {
+      let size: number | undefined;
 
-      if (typeof options !== "boolean" && options?.once) {
-        withOnce = this.removeAfterOneInvocation(
-          type,
-          detailOnly,
-          callback,
-        );
+      try {
+        size = this.codec.encode(
+          {
+            type: fromEventType(event.type),
+            detail: event.detail,
+          } as Parameters<typeof this.codec.encode>[0],
+        ).byteLength;
+      } catch {
+        size = undefined;
       }
 
-      // if we call this.addEventListener, the callback will be added two times to the __listeners__ Map
-      super.addEventListener(
-        type,
-        withOnce as EventTargetCompatible,
-        options,
-      );
+      dispatch = { dispatch: ++this.__dispatchCount__, size };
+
+      this.__dispatches__.set(event, dispatch);
+    }
 
-      this.getOrCreateListeners(type).set(callback, withOnce);
+    const start = performance.now();
+
+    const record = (async: boolean, ...error: [error?: unknown]) => {
+      const entry: TraceEntry = {
+        ...dispatch,
+        type: fromEventType(event.type),
+        listener: name,
+        start,
+        duration: performance.now() - start,
+        async,
+        ...(error.length > 0 && { error: error[0] }),
+      };
+
+      if (this.tracePerformance) {
+        // the detail is copied with the structured clone algorithm, which doesn't support symbols and every error
+        const { error: _error, ...measured } = entry;
+
+        performance.measure(`${String(entry.type)} ${name}`, {
+          start,
+          duration: entry.duration,
+          detail: { ...measured, type: String(entry.type) },
+        });
+      }
+
+      this.trace?.(entry);
     };
 
-    if (typeof types === "string") {
-      addCallback(types);
-    } else {
-      types.forEach((type) => {
-        addCallback(type);
-      });
+    let result: void | Promise<void>;
+
+    try {
+      result = listener(event);
+    } catch (error) {
+      record(false, error);
+
+      throw error;
     }
 
-    return this;
+    if (result instanceof Promise) {
+      return result.then(
+        () => record(true),
+        (error) => {
+          record(true, error);
+
+          throw error;
+        },
+      );
+    }
+
+    record(false);
+
+    return result;
   }
 
   /**
-   * add a callback to an event only once. After that, the listener is removed.
-   * @param type the event name the callback should listen to
-   * @param callback the callback to execute when the event is dispatched
-   * @param options event options {@link EventTarget["addEventListener"]}
+   * Handle an error thrown by a listener according to the {@link errorPolicy}
+   * @param error the error the listener threw
+   * @param event the event the listener was called with
+   * @param listener the callback the user added
+   * @param async whether the error was thrown asynchronously, after the dispatch finished
    */
-  once<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
-    type: Ev,
-    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
-    options?: boolean | AddEventListenerOptions,
+  protected handleListenerError(
+    error: unknown,
+    event: Event,
+    // deno-lint-ignore no-explicit-any
+    listener: Fn<any[], unknown>,
+    async: boolean,
+  ): void {
+    const errors = async ? undefined : this.__dispatchErrors__.at(-1);
+
+    if (
+      this.errorPolicy === "emit-error" && event.type !== "error" &&
+      this.getListeners("error").size > 0
+    ) {
+      const detail: ListenerErrorDetail = {
+        error,
+        type: fromEventType(event.type),
+        detail: event instanceof CustomEvent ? event.detail : undefined,
+        listener,
+      };
+
+      try {
+        this.dispatchEvent(EventEmitter.createEvent("error", detail));
+
+        return;
+      } catch (errorOfErrorListener) {
+        error = errorOfErrorListener;
+      }
+    }
+
+    if (this.errorPolicy !== "report" && errors) {
+      errors.push(error);
+    } else {
+      // like the EventTarget does, report the error without interrupting the dispatch
+      reportError(error);
+    }
+  }
+
+  /**
+   * Call listeners in the order of the array, until one of them stops the immediate propagation of the event
+   * @param listeners the callbacks, as they are stored as values in the {@link __listeners__} or {@link __anyListeners__} Map
+   * @param event the event to call them with
+   */
+  protected callListeners(
+    listeners: ReservedOrUserListenerAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      ReservedOrUserEventNames<ReservedEvents, UserEvents>
+    >[],
+    event: Event,
+  ): void {
+    for (const listener of listeners) {
+      if (this.__stoppedEvents__.has(event)) {
+        return;
+      }
+
+      listener(event as Parameters<typeof listener>[0]);
+    }
+  }
+
+  protected getOrCreateListeners<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(type: Ev): CustomEventListenerMap<ReservedEvents, UserEvents, Ev> {
+    if (!this.__listeners__.has(type)) {
+      this.__listeners__.set(type, new Map());
+    }
+
+    return this.__listeners__.get(type)! as CustomEventListenerMap<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >;
+  }
+
+  /**
+   * add a callback to the {@link __listeners__} Map and to the {@link __sortedListeners__}. The EventTarget calls it with {@link dispatchListeners}.
+   * If the callback was already added for this event, it is replaced.
+   * @param type the event name
+   * @param callback the callback the user added, the key in the {@link __listeners__} Map
+   * @param listener the callback that is called, the value in the {@link __listeners__} Map
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority
+   * @param prepend whether the callback should be called before the callbacks with the same priority instead of after them
+   */
+  protected addListener<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    type: Ev,
+    callback: ReservedOrUserListenerOnOrAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >,
+    listener: ReservedOrUserListenerAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >,
+    options?: boolean | ListenerOptions,
+    prepend = false,
+  ): void {
+    // the emitter handles `signal` and `once` itself, otherwise the EventTarget would remove the callback without removing it from the Map
+    const { signal, once: _once, ...nativeOptions }: ListenerOptions =
+      typeof options === "object" ? options : { capture: options };
+
+    // like the EventTarget does, a callback with an aborted signal isn't added
+    if (signal?.aborted) {
+      return;
+    }
+
+    listener = this.guardListener(
+      callback,
+      listener,
+      typeof options === "object" ? options.label : undefined,
+    );
+
+    if (this.__listeners__.get(type)?.has(callback)) {
+      this.removeEventListener(type, callback);
+    }
+
+    const priority = typeof options === "object" ? options.priority ?? 0 : 0;
+
+    if (!this.__sortedListeners__.has(type)) {
+      this.__sortedListeners__.set(type, []);
+    }
+
+    const entries = this.__sortedListeners__.get(type)!;
+
+    // binary search for the first entry with a lower priority (or the same, if prepended)
+    let low = 0, high = entries.length;
+
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      const other = this.getPriority(entries[middle][1]);
+
+      if (prepend ? other <= priority : other < priority) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+
+    this.__listenerOptions__.set(listener, {
+      priority,
+      options: nativeOptions,
+      removeAbortListener: signal && this.removeOnAbort(type, callback, signal),
+    });
+
+    this.getOrCreateListeners(type).set(callback, listener);
+
+    entries.splice(low, 0, [callback, listener]);
+
+    if (isPattern(type)) {
+      this.__patterns__.add(type as EventNamePattern);
+    }
+
+    this.checkMaxListeners(type);
+
+    this.replayHistory(type, callback, listener);
+  }
+
+  /**
+   * remove a callback from the {@link __listeners__} Map and the EventTarget, when the signal it was added with is aborted
+   * @param type the event name or pattern
+   * @param callback the callback the user added, the key in the {@link __listeners__} Map
+   * @param signal the signal
+   * @returns a function that stops listening to the signal
+   */
+  protected removeOnAbort<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    type: Ev,
+    callback: ReservedOrUserListenerOnOrAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >,
+    signal: AbortSignal,
+  ): Fn<never[], void> {
+    const onAbort = () => this.removeEventListener(type, callback);
+
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    return () => signal.removeEventListener("abort", onAbort);
+  }
+
+  /**
+   * call a listener, that was just added, with the history of the event
+   * @param type the event name
+   * @param callback the callback the user added, the key in the {@link __listeners__} Map
+   * @param listener the value in the {@link __listeners__} Map
+   */
+  protected replayHistory<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    type: Ev,
+    callback: ReservedOrUserListenerOnOrAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >,
+    listener: ReservedOrUserListenerAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >,
+  ): void {
+    for (const detail of [...this.__history__.get(type) ?? []]) {
+      // `once` listeners and listeners removing themselves must not be called again
+      if (this.__listeners__.get(type)?.get(callback) !== listener) {
+        return;
+      }
+
+      listener(
+        EventEmitter.createEvent(type, detail) as Parameters<
+          typeof listener
+        >[0],
+      );
+    }
+  }
+
+  /**
+   * Get the details of an event that are kept for replaying, the oldest first
+   * @param type the event name
+   */
+  getHistory<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    type: Ev,
+  ): ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>[] {
+    return [...this.__history__.get(type) ?? []] as ReservedOrUserEventDetail<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >[];
+  }
+
+  /**
+   * clear the history of all events
+   */
+  clearHistory(): this;
+
+  /**
+   * clear the history of an event, so that it isn't replayed to listeners added later
+   * @param type the event name
+   */
+  clearHistory(
+    type: ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  ): this;
+
+  clearHistory(type?: EvName): this {
+    if (type !== undefined) {
+      this.__history__.delete(type);
+    } else {
+      this.__history__.clear();
+    }
+
+    return this;
+  }
+
+  /**
+   * emit a warning via the {@link onWarning} sink and the reserved `maxListenersExceeded` event,
+   * if the event has more listeners than allowed. The warning is only emitted once per event
+   * @param type the event name
+   */
+  protected checkMaxListeners(type: EvName): void {
+    const max = this.getMaxListeners(type);
+    const count = this.getOrCreateListeners(type).size;
+
+    if (max === 0 || count <= max || this.__warnedMaxListeners__.has(type)) {
+      return;
+    }
+
+    this.__warnedMaxListeners__.add(type);
+
+    const message = `Possible memory leak detected: ${count} listeners of "${
+      String(type)
+    }" added, but the limit is ${max}. Use setMaxListeners() to increase it`;
+
+    // the stack points to the registration, that exceeded the limit
+    const { stack } = new Error(message);
+
+    const detail: MaxListenersExceededDetail = { type, count, max, stack };
+
+    this.onWarning(message, detail);
+
+    this.dispatchEvent(
+      EventEmitter.createEvent("maxListenersExceeded", detail),
+    );
+  }
+
+  /**
+   * set the maximum number of listeners per event, before a warning is emitted
+   * @param n the maximum number, `0` and `Infinity` disable the warning
+   */
+  setMaxListeners(n: number): this;
+
+  /**
+   * set the maximum number of listeners of a specific event, before a warning is emitted
+   * @param type the event name or pattern
+   * @param n the maximum number, `0` and `Infinity` disable the warning
+   */
+  setMaxListeners(
+    type:
+      | ReservedOrUserEventNames<ReservedEvents, UserEvents>
+      | EventNamePattern,
+    n: number,
+  ): this;
+
+  setMaxListeners(typeOrN: EvName | number, n?: number): this {
+    const max = typeof typeOrN === "number" ? typeOrN : n;
+
+    if (typeof max !== "number" || !(max >= 0)) {
+      throw new RangeError(
+        `maxListeners must be a non-negative number, received ${max}`,
+      );
+    }
+
+    if (typeof typeOrN === "number") {
+      this.__maxListeners__ = max;
+    } else {
+      this.__maxListenersPerEvent__.set(typeOrN, max);
+    }
+
+    return this;
+  }
+
+  /**
+   * get the maximum number of listeners per event, before a warning is emitted
+   * @param type Optional - the event name or pattern, to get the limit of a specific event
+   */
+  getMaxListeners(
+    type?:
+      | ReservedOrUserEventNames<ReservedEvents, UserEvents>
+      | EventNamePattern,
+  ): number {
+    return (type !== undefined
+      ? this.__maxListenersPerEvent__.get(type)
+      : undefined) ??
+      this.__maxListeners__ ??
+      EventEmitter.defaultMaxListeners;
+  }
+
+  /**
+   * add a callback to an event or multiple events
+   * @param type the event name the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  // @ts-ignore <different implementation>
+  addEventListener<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    type: Ev,
+    callback: ReservedOrUserListenerAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >,
+    options?: boolean | ListenerOptions,
+  ): this {
+    let withOnce = callback;
+
+    if (typeof options !== "boolean" && options?.once) {
+      withOnce = this.removeAfterOneInvocation(type, callback);
+    }
+
+    this.addListener(type, callback, withOnce, options);
+
+    return this;
+  }
+
+  /**
+   * add a callback to all events matching a pattern, e.g. `user.*` or `**`
+   * @param pattern the pattern, `*` matches exactly one segment of the event name, `**` any number of segments
+   * @param callback the callback to execute when a matching event is dispatched, it gets called with the name and the detail of the event
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  on<Pattern extends EventNamePattern>(
+    pattern: Pattern,
+    callback: PatternListener<ReservedEvents, UserEvents, Pattern>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  /**
+   * add a callback to an event
+   * @param type the event name the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  on<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    type: Ev,
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  /**
+   * add a callback to multiple events
+   * @param types an array of the event names the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  on<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    types: Ev[],
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  on<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    types: Ev | EventNamePattern | Ev[],
+    callback:
+      | ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>
+      | PatternListener<ReservedEvents, UserEvents, EventNamePattern>,
+    options?: boolean | ListenerOptions,
+  ): this {
+    return this._on(types, callback, options);
+  }
+
+  /**
+   * implementation of {@link on}, {@link once}, {@link prependListener} and {@link prependOnceListener}
+   * @param prepend whether the callback should be called before the callbacks with the same priority instead of after them
+   */
+  protected _on<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    types: Ev | EventNamePattern | Ev[],
+    callback:
+      | ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>
+      | PatternListener<ReservedEvents, UserEvents, EventNamePattern>,
+    options?: boolean | ListenerOptions,
+    prepend = false,
+  ): this {
+    const listener = callback as ReservedOrUserListenerOn<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >;
+
+    const addCallback = (type: Ev) => {
+      const pattern = isPattern(type);
+
+      const call = pattern
+        ? this.passTypeAndDetail<Ev, EventNamePattern>(
+          callback as PatternListener<
+            ReservedEvents,
+            UserEvents,
+            EventNamePattern
+          >,
+        )
+        : this.passOnlyDetail(listener);
+
+      let withOnce = call;
+
+      if (typeof options !== "boolean" && options?.once) {
+        withOnce = this.removeAfterOneInvocation<typeof type>(
+          type,
+          call,
+          listener,
+        );
+      }
+
+      // if we call this.addEventListener, the callback would be wrapped again
+      this.addListener(type, listener, withOnce, options, prepend);
+    };
+
+    if (Array.isArray(types)) {
+      types.forEach((type) => {
+        addCallback(type);
+      });
+    } else {
+      addCallback(types as Ev);
+    }
+
+    return this;
+  }
+
+  /**
+   * add a callback to all events matching a pattern only once. After the first matching event, the listener is removed.
+   * @param pattern the pattern, `*` matches exactly one segment of the event name, `**` any number of segments
+   * @param callback the callback to execute when a matching event is dispatched, it gets called with the name and the detail of the event
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  once<Pattern extends EventNamePattern>(
+    pattern: Pattern,
+    callback: PatternListener<ReservedEvents, UserEvents, Pattern>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  /**
+   * add a callback to an event only once. After that, the listener is removed.
+   * @param type the event name the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  once<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    type: Ev,
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
   ): this;
 
   /**
    * add a callback to multiple events only once. After that, the listener is removed.
    * @param types an array of the event names the callback should listen to
    * @param callback the callback to execute when the event is dispatched
-   * @param options event options {@link EventTarget["addEventListener"]}
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
    */
   once<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
     types: Ev[],
     callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
-    options?: boolean | AddEventListenerOptions,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  once<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    types: Ev | EventNamePattern | Ev[],
+    callback:
+      | ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>
+      | PatternListener<ReservedEvents, UserEvents, EventNamePattern>,
+    options?: boolean | ListenerOptions,
+  ): this {
+    options ||= {};
+
+    return this._on(
+      types,
+      callback,
+      Object.assign(options, {
+        once: true,
+      }),
+    );
+  }
+
+  /**
+   * add a method of an object to an event, without keeping the object alive. The emitter only holds a WeakRef of the object,
+   * when it was garbage-collected, the listener is removed
+   * @param type the event name the method should listen to
+   * @param owner the object, whose method is called
+   * @param method the name of the method or a function, that is called with the owner as `this`, see {@link WeakListenerMethod}
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  onWeak<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+    Owner extends object,
+  >(
+    type: Ev,
+    owner: Owner,
+    method: WeakListenerMethod<
+      Owner,
+      ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>
+    >,
+    options?: boolean | ListenerOptions,
+  ): this {
+    const ownerRef = new WeakRef(owner);
+
+    const callback = ((
+      detail: ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>,
+      control: EventControl,
+    ) => {
+      const owner = ownerRef.deref();
+
+      // the owner was garbage-collected, but the FinalizationRegistry didn't remove the listener yet
+      if (!owner) {
+        this.removeEventListener(type, callback);
+
+        return;
+      }
+
+      const fn = typeof method === "function"
+        ? method
+        : owner[method] as typeof method;
+
+      return (fn as Fn<[typeof detail, EventControl], void>).call(
+        owner,
+        detail,
+        control,
+      );
+    }) as ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>;
+
+    const label = typeof method === "function" ? method.name : String(method);
+
+    this.on(
+      type,
+      callback,
+      typeof options === "object"
+        ? { label, ...options }
+        : { label, capture: options },
+    );
+
+    // it isn't added, if the signal is aborted
+    if (this.__listeners__.get(type)?.has(callback)) {
+      this.__weakListeners__.set(callback, { type, owner: ownerRef });
+      this.__collectedOwners__.register(owner, callback, callback);
+    }
+
+    return this;
+  }
+
+  /**
+   * remove the listeners added for an object with {@link onWeak}
+   * @param owner the object
+   * @param type Optional - only remove the listeners of this event
+   */
+  offWeak(
+    owner: object,
+    type?: ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  ): this {
+    this.__weakListeners__.forEach((weakListener, callback) => {
+      if (
+        weakListener.owner.deref() === owner &&
+        (type === undefined || weakListener.type === type)
+      ) {
+        // @ts-ignore <the callback was added to the event>
+        this.removeEventListener(weakListener.type, callback);
+      }
+    });
+
+    return this;
+  }
+
+  /**
+   * remove the listeners added with {@link onWeak}, whose owner was garbage-collected,
+   * before the FinalizationRegistry removes them
+   */
+  protected removeCollectedListeners(): void {
+    this.__weakListeners__.forEach((weakListener, callback) => {
+      if (!weakListener.owner.deref()) {
+        // @ts-ignore <the callback was added to the event>
+        this.removeEventListener(weakListener.type, callback);
+      }
+    });
+  }
+
+  /**
+   * add a callback to an event, which is called before the callbacks with the same priority that were added before
+   * @param type the event name the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  prependListener<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    type: Ev,
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  /**
+   * add a callback to multiple events, which is called before the callbacks with the same priority that were added before
+   * @param types an array of the event names the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  prependListener<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    types: Ev[],
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  prependListener<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    types: Ev | Ev[],
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
+  ): this {
+    return this._on(types, callback, options, true);
+  }
+
+  /**
+   * add a callback to an event only once, which is called before the callbacks with the same priority that were added before.
+   * After that, the listener is removed.
+   * @param type the event name the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  prependOnceListener<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    type: Ev,
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  /**
+   * add a callback to multiple events only once, which is called before the callbacks with the same priority that were added before.
+   * After that, the listener is removed.
+   * @param types an array of the event names the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  prependOnceListener<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    types: Ev[],
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
   ): this;
 
-  once<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+  prependOnceListener<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
     types: Ev | Ev[],
     callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
-    options?: boolean | AddEventListenerOptions,
+    options?: boolean | ListenerOptions,
   ): this {
     options ||= {};
 
-    this.on(
-      // @ts-ignore <there are matching overloads, but typescript doesn't seem to recognize that>
+    return this._on(
       types,
       callback,
       Object.assign(options, {
         once: true,
       }),
+      true,
     );
-
-    return this;
   }
 
   // @ts-ignore <different implementation>
@@ -298,18 +1416,28 @@ export class EventEmitter<
       UserEvents,
       Ev
     >,
-    options?: boolean | EventListenerOptions,
+    _options?: boolean | EventListenerOptions,
   ): this {
     const realCb = this.__listeners__.get(type)?.get(callback);
 
     if (realCb) {
-      super.removeEventListener(
-        type,
-        realCb as EventTargetCompatible,
-        options,
-      );
+      this.__listenerOptions__.get(realCb)?.removeAbortListener?.();
+
+      if (this.__weakListeners__.delete(callback)) {
+        this.__collectedOwners__.unregister(callback);
+      }
 
+      this.__listenerOptions__.delete(realCb);
       this.__listeners__.get(type)!.delete(callback);
+
+      const entries = this.__sortedListeners__.get(type)!;
+
+      entries.splice(entries.findIndex(([key]) => key === callback), 1);
+
+      if (entries.length === 0) {
+        this.__sortedListeners__.delete(type);
+        this.__patterns__.delete(type as EventNamePattern);
+      }
     }
 
     return this;
@@ -366,13 +1494,41 @@ export class EventEmitter<
     options?: boolean | EventListenerOptions,
   ): this;
 
+  /**
+   * remove all EventListeners of the events matching a pattern, including the ones added with a matching pattern
+   * @param pattern the pattern, e.g. `user.*`
+   */
+  off<Pattern extends EventNamePattern>(pattern: Pattern): this;
+
+  /**
+   * remove a specific EventListener from the events matching a pattern, including the ones added with a matching pattern
+   * @param pattern the pattern, e.g. `user.*`
+   * @param callback the callback function to remove
+   */
+  off<Pattern extends EventNamePattern>(
+    pattern: Pattern,
+    callback:
+      | PatternListener<ReservedEvents, UserEvents, Pattern>
+      | ReservedOrUserListenerOnOrAddEventListener<
+        ReservedEvents,
+        UserEvents,
+        MatchingEventNames<
+          ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+          Pattern
+        >
+      >,
+    options?: boolean | EventListenerOptions,
+  ): this;
+
   off<Ev extends EventNames<UserEvents>>(
-    types?: Ev | Ev[],
-    callback?: ReservedOrUserListenerOnOrAddEventListener<
-      ReservedEvents,
-      UserEvents,
-      Ev
-    >,
+    types?: Ev | EventNamePattern | Ev[],
+    callback?:
+      | ReservedOrUserListenerOnOrAddEventListener<
+        ReservedEvents,
+        UserEvents,
+        Ev
+      >
+      | PatternListener<ReservedEvents, UserEvents, EventNamePattern>,
     options?: boolean | EventListenerOptions,
   ): this {
     const doRemove = (
@@ -380,16 +1536,33 @@ export class EventEmitter<
       optionalCallback?: ReservedOrUserListenerOnOrAddEventListener<
         ReservedEvents,
         UserEvents,
-        Ev
+        ReservedOrUserEventNames<ReservedEvents, UserEvents>
       >,
     ) => {
-      const cb = optionalCallback ?? callback;
+      const cb = (optionalCallback ?? callback) as
+        | ReservedOrUserListenerOnOrAddEventListener<
+          ReservedEvents,
+          UserEvents,
+          Ev
+        >
+        | undefined;
 
       if (cb) {
         this.removeEventListener(type, cb, options);
       }
     };
 
+    // a pattern stands for all registered event names (and patterns) it matches
+    const resolveTypes = (type: Ev | EventNamePattern): Ev[] => {
+      if (!isPattern(type)) {
+        return [type as Ev];
+      }
+
+      return [...this.__listeners__.keys()].filter((key) =>
+        matchesPattern(type, key)
+      ) as Ev[];
+    };
+
     // remove all EventListeners
     if (!types && !callback) {
       this.__listeners__.forEach((map, type) => {
@@ -399,6 +1572,8 @@ export class EventEmitter<
       });
 
       this.__listeners__.clear();
+
+      this.__anyListeners__.clear();
     } // remove all EventListeners for specific event(s)
     else if (types && !callback) {
       const removeAllForOneType = (type: Ev) => {
@@ -411,21 +1586,17 @@ export class EventEmitter<
         this.__listeners__.delete(type);
       };
 
-      if (typeof types === "string") {
-        removeAllForOneType(types);
+      if (Array.isArray(types)) {
+        types.flatMap(resolveTypes).forEach(removeAllForOneType);
       } else {
-        types.forEach((type) => {
-          removeAllForOneType(type);
-        });
+        resolveTypes(types).forEach(removeAllForOneType);
       }
     } // remove specific EventListener for specific event(s)
     else if (types && callback) {
-      if (typeof types === "string") {
-        doRemove(types);
+      if (Array.isArray(types)) {
+        types.flatMap(resolveTypes).forEach((type) => doRemove(type));
       } else {
-        types.forEach((type) => {
-          doRemove(type);
-        });
+        resolveTypes(types).forEach((type) => doRemove(type));
       }
     } // unknown case
     else {
@@ -435,14 +1606,355 @@ export class EventEmitter<
     return this;
   }
 
+  /**
+   * add a callback to all events. Any-listeners are called before the listeners of the event
+   * @param callback the callback to execute when any event is dispatched, it gets called with the name and the detail of the event
+   */
+  onAny(callback: AnyListener<ReservedEvents, UserEvents>): this {
+    this.__anyListeners__.set(
+      callback,
+      this.guardListener(callback, this.passTypeAndDetail(callback)),
+    );
+
+    return this;
+  }
+
+  /**
+   * add a callback to all events only once. After the first event, the listener is removed.
+   * @param callback the callback to execute when any event is dispatched, it gets called with the name and the detail of the event
+   */
+  onceAny(callback: AnyListener<ReservedEvents, UserEvents>): this {
+    const call = this.passTypeAndDetail(callback);
+
+    this.__anyListeners__.set(
+      callback,
+      this.guardListener<ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+        callback,
+        ((event: Parameters<typeof call>[0]) => {
+          this.offAny(callback);
+
+          return call(event);
+        }) as typeof call,
+      ),
+    );
+
+    return this;
+  }
+
+  /**
+   * add a callback to all events, which is called before the other any-listeners
+   * @param callback the callback to execute when any event is dispatched, it gets called with the name and the detail of the event
+   */
+  prependAny(callback: AnyListener<ReservedEvents, UserEvents>): this {
+    const listeners = [...this.__anyListeners__].filter(([key]) =>
+      key !== callback
+    );
+
+    this.__anyListeners__ = new Map([
+      [
+        callback,
+        this.guardListener(callback, this.passTypeAndDetail(callback)),
+      ],
+      ...listeners,
+    ]);
+
+    return this;
+  }
+
+  /**
+   * remove all any-listeners
+   */
+  offAny(): this;
+
+  /**
+   * remove a specific any-listener
+   * @param callback the callback function to remove
+   */
+  offAny(callback: AnyListener<ReservedEvents, UserEvents>): this;
+
+  offAny(callback?: AnyListener<ReservedEvents, UserEvents>): this {
+    if (callback) {
+      this.__anyListeners__.delete(callback);
+    } else {
+      this.__anyListeners__.clear();
+    }
+
+    return this;
+  }
+
   /**
    * @param event the event
    * @returns Dispatches a synthetic event event to target and returns true
    * if either event's cancelable attribute value is false or its preventDefault() method was not invoked,
    * and false otherwise.
+   * @throws when a listener throws and the {@link errorPolicy} is `"rethrow-after-all"`,
+   * or it is `"emit-error"` and there are no listeners for the `error` event. All listeners are called before
    */
   dispatchEvent<Ev extends Event>(event: Ev): boolean {
-    return super.dispatchEvent(event);
+    let result = true;
+
+    const type = fromEventType(event.type);
+
+    if (event instanceof CustomEvent) {
+      this.recordHistory(type, event.detail);
+    }
+
+    this.collectErrors(type, () => {
+      if (event instanceof CustomEvent) {
+        this.callListeners([...this.__anyListeners__.values()], event);
+      }
+
+      // adding it again doesn't have an effect
+      super.addEventListener(event.type, this.dispatchListeners);
+
+      result = super.dispatchEvent(event);
+    });
+
+    return result;
+  }
+
+  /**
+   * Record the detail of an event with a replay. It has to be recorded before the listeners are called,
+   * so that listeners added by them get the detail as well
+   * @param type the event name
+   * @param detail the detail
+   */
+  protected recordHistory(type: EvName, detail: unknown): void {
+    const replay = this.__replay__.get(type);
+
+    if (!replay) {
+      return;
+    }
+
+    const history = this.__history__.get(type) ?? [];
+
+    history.push(detail);
+
+    this.__history__.set(type, history.slice(-replay));
+  }
+
+  /**
+   * Call the listeners of an event and throw the errors they threw synchronously afterwards, according to the {@link errorPolicy}
+   * @param type the event name
+   * @param callListeners the function calling the listeners
+   */
+  protected collectErrors(type: EvName, callListeners: () => void): void {
+    const errors: unknown[] = [];
+
+    this.__dispatchErrors__.push(errors);
+
+    try {
+      callListeners();
+    } finally {
+      this.__dispatchErrors__.pop();
+    }
+
+    if (errors.length === 1 && this.errorPolicy === "emit-error") {
+      throw errors[0];
+    } else if (errors.length > 0) {
+      throw new AggregateError(
+        errors,
+        `${errors.length} listener(s) of "${String(type)}" failed`,
+      );
+    }
+  }
+
+  /**
+   * Call the listeners of this emitter for an event emitted by one of its descendants.
+   * They aren't dispatched to the EventTarget, because it would call all listeners and set the `target` of the event to this emitter
+   * @param event the event emitted by the descendant
+   * @param capture whether the event is in the capturing phase, then only capturing listeners are called,
+   * otherwise the event is bubbling and only the other listeners and any-listeners are called
+   */
+  protected dispatchPhase(event: Event, capture: boolean): void {
+    const isCapturing = (listener: object) => {
+      const options = this.__listenerOptions__.get(listener)?.options;
+
+      return typeof options === "boolean" ? options : !!options?.capture;
+    };
+
+    const type = fromEventType(event.type);
+
+    this.collectErrors(type, () => {
+      const listeners = this.getListenerEntries(type)
+        .map(([, listener]) => listener)
+        .filter((listener) => isCapturing(listener) === capture);
+
+      if (!capture) {
+        listeners.unshift(...this.__anyListeners__.values());
+      }
+
+      this.callListeners(listeners, event);
+    });
+  }
+
+  /**
+   * Dispatch an event emitted by this emitter to its ancestors as well: capturing listeners of the ancestors are called first,
+   * from the root down, then the listeners of this emitter and, if the event bubbles, the other listeners of the ancestors, from the parent up
+   * @param event the event to dispatch
+   * @returns false, if the event was canceled, true otherwise
+   * @throws the errors thrown by the listeners of the emitters, according to their {@link errorPolicy}, after the event was dispatched to all of them
+   */
+  protected propagate(event: Event): boolean {
+    const ancestors = [];
+
+    let ancestor = this.__parent__;
+    let boundary = this.__boundary__;
+
+    while (ancestor && (event.composed || !boundary)) {
+      ancestors.push(ancestor);
+
+      boundary = ancestor.__boundary__;
+      ancestor = ancestor.__parent__;
+    }
+
+    let phase: { currentTarget: object; eventPhase: number } | undefined;
+
+    // the EventTarget sets them only while the event is dispatched to this emitter, and the `target` to the emitter it is dispatched to
+    Object.defineProperties(event, {
+      target: { value: this },
+      currentTarget: {
+        get: () =>
+          phase
+            ? phase.currentTarget
+            : Reflect.get(Event.prototype, "currentTarget", event),
+      },
+      eventPhase: {
+        get: () =>
+          phase
+            ? phase.eventPhase
+            : Reflect.get(Event.prototype, "eventPhase", event),
+      },
+    });
+
+    const errors: unknown[] = [];
+
+    const dispatchTo = (current: typeof phase, dispatch: () => void) => {
+      if (event instanceof EmitterEvent && event.propagationStopped) {
+        return;
+      }
+
+      phase = current;
+
+      try {
+        dispatch();
+      } catch (error) {
+        errors.push(error);
+      } finally {
+        phase = undefined;
+      }
+    };
+
+    for (const ancestor of ancestors.toReversed()) {
+      dispatchTo(
+        { currentTarget: ancestor, eventPhase: Event.CAPTURING_PHASE },
+        () => ancestor.dispatchPhase(event, true),
+      );
+    }
+
+    dispatchTo(undefined, () => this.dispatchEvent(event));
+
+    if (event.bubbles) {
+      for (const ancestor of ancestors) {
+        dispatchTo(
+          { currentTarget: ancestor, eventPhase: Event.BUBBLING_PHASE },
+          () => ancestor.dispatchPhase(event, false),
+        );
+      }
+    }
+
+    if (errors.length === 1) {
+      throw errors[0];
+    } else if (errors.length > 0) {
+      throw new AggregateError(
+        errors,
+        `listeners of ${errors.length} emitters of "${
+          String(fromEventType(event.type))
+        }" failed`,
+      );
+    }
+
+    return !event.defaultPrevented;
+  }
+
+  /**
+   * Set the parent of this emitter. Events emitted by this emitter with `emit` or `emitCancelable` are captured by the parent and its ancestors
+   * (listeners added with `capture: true` are called before the listeners of this emitter)
+   * and, if they are emitted with `bubbles: true`, bubble to them afterwards.
+   * The `CustomEventMap` of the parent has to include the events of this emitter
+   * @param parent the parent or null to detach this emitter from its parent
+   * @param options Optional - see {@link ParentOptions}
+   * @throws a `TypeError`, if the parent is this emitter or one of its descendants
+   */
+  setParent<
+    ParentEvents extends CustomEventMap,
+    ParentReservedEvents extends CustomEventMap,
+  >(
+    parent:
+      | (
+        & EventEmitter<ParentEvents, ParentReservedEvents>
+        & AcceptsBubbledEvents<ParentEvents, UserEvents>
+      )
+      | null,
+    { boundary = false }: ParentOptions = {},
+  ): this {
+    // deno-lint-ignore no-explicit-any
+    let ancestor: EventEmitter<any, any> | undefined = parent ?? undefined;
+
+    while (ancestor) {
+      if (ancestor === this) {
+        throw new TypeError("An emitter can't be its own ancestor");
+      }
+
+      ancestor = ancestor.__parent__;
+    }
+
+    this.__parent__ = parent ?? undefined;
+    this.__boundary__ = boundary;
+
+    return this;
+  }
+
+  /**
+   * Get the parent of this emitter, see {@link setParent}
+   */
+  // deno-lint-ignore no-explicit-any
+  getParent(): EventEmitter<any, any> | undefined {
+    return this.__parent__;
+  }
+
+  /**
+   * Make this emitter the parent of a child emitter, see {@link setParent}.
+   * The `CustomEventMap` of this emitter has to include the events of the child
+   * @param child the child emitter
+   * @param options Optional - see {@link ParentOptions}
+   */
+  attach<
+    ChildEvents extends CustomEventMap,
+    ChildReservedEvents extends CustomEventMap,
+  >(
+    child:
+      & EventEmitter<ChildEvents, ChildReservedEvents>
+      & AcceptsBubbledEvents<UserEvents, ChildEvents>,
+    options?: ParentOptions,
+  ): this {
+    // @ts-ignore <the events are checked by the type of the parameter>
+    child.setParent(this, options);
+
+    return this;
+  }
+
+  /**
+   * Detach a child emitter attached with {@link attach}
+   * @param child the child emitter, nothing happens, if it isn't a child of this emitter
+   */
+  // deno-lint-ignore no-explicit-any
+  detach(child: EventEmitter<any, any>): this {
+    if (child.__parent__ === this) {
+      child.setParent(null);
+    }
+
+    return this;
   }
 
   /**
@@ -450,17 +1962,156 @@ export class EventEmitter<
    */
   dispatch = this.emit;
 
-  protected _emit<
-    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
-  >(
-    type: Ev,
-    ...[detail]: CustomEventDetailParameter<UserEvents & ReservedEvents, Ev>
-  ): this {
-    const event = EventEmitter.createEvent(type, detail);
+  /**
+   * add a middleware, that is called for every event emitted with `emit`, `emitAsync`, `emitReserved` or `emitUntyped`.
+   * Middleware is called in the order it was added.
+   * @param middleware the middleware, it can change `context.detail`, veto the event by not calling `next`
+   * and run code after the event was dispatched
+   */
+  use(middleware: Middleware<ReservedEvents, UserEvents>): this {
+    this.__middleware__.push(middleware);
+
+    return this;
+  }
+
+  /**
+   * pass an event through all middleware and dispatch it, if no middleware vetoed it
+   * @param type the event name
+   * @param detail the detail of the event
+   * @param reserved whether the event was emitted with `emitReserved`
+   * @param dispatch the function dispatching the event, called with the (possibly changed) context
+   */
+  protected applyMiddleware(
+    type: EvName,
+    detail: unknown,
+    reserved: boolean,
+    dispatch: (context: EmitContext<ReservedEvents, UserEvents>) => void,
+  ): void {
+    const context = { type, detail, reserved } as EmitContext<
+      ReservedEvents,
+      UserEvents
+    >;
+
+    // copy the middleware, so that adding middleware while emitting doesn't affect this event
+    const middleware = [...this.__middleware__];
+
+    const next = (index: number) => {
+      if (index === middleware.length) {
+        dispatch(context);
+
+        return;
+      }
+
+      let called = false;
+
+      middleware[index](context, () => {
+        if (called) {
+          throw new Error("next() called multiple times");
+        }
+
+        called = true;
+
+        next(index + 1);
+      });
+    };
+
+    next(0);
+  }
+
+  protected _emit<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    type: Ev,
+    ...[detail, options]: CustomEventDetailAndOptionsParameters<
+      UserEvents & ReservedEvents,
+      Ev,
+      EmitOptions
+    >
+  ): this {
+    this.dispatchValidated(type, detail, options);
+
+    return this;
+  }
+
+  /**
+   * validate the detail and dispatch the event
+   * @param type the event name
+   * @param detail the detail
+   * @param init Optional - a CustomEventInit object without the `detail` property, e.g. to make the event cancelable
+   * @returns false, if the event was canceled or not dispatched, because its detail is invalid, true otherwise.
+   * If this emitter has a parent, the event is propagated to it, see {@link setParent}
+   */
+  protected dispatchValidated(
+    type: EvName,
+    detail: unknown,
+    init?: Omit<CustomEventInit, "detail">,
+  ): boolean {
+    const validated = this.validateDetail(type, detail);
+
+    if (!validated) {
+      return false;
+    }
+
+    const event = EventEmitter.createEvent(type, validated.detail, init);
+
+    return this.__parent__ ? this.propagate(event) : this.dispatchEvent(event);
+  }
+
+  /**
+   * check the detail of an event with its validator (if there is one) before it is dispatched
+   * @param type the event name
+   * @param detail the detail to check
+   * @returns an object with the detail to dispatch (a schema can transform it),
+   * or undefined, if the detail is invalid and the `validationFailed` event was emitted instead
+   * @throws a `ValidationError`, if the detail is invalid and the {@link validationPolicy} is `"throw"`
+   * or there is no listener for the `validationFailed` event
+   */
+  protected validateDetail(
+    type: EvName,
+    detail: unknown,
+  ): { detail: unknown } | undefined {
+    const validator = this.__validators__[type];
+
+    if (!validator) {
+      return { detail };
+    }
+
+    let issues: ReadonlyArray<ValidationIssue>;
+
+    if (typeof validator === "function") {
+      if (validator(detail)) {
+        return { detail };
+      }
+
+      issues = [{ message: "rejected by the validator" }];
+    } else {
+      const result = validator["~standard"].validate(detail);
+
+      if (result instanceof Promise) {
+        throw new TypeError(
+          `The validator of "${String(type)}" is async, which isn't supported`,
+        );
+      }
+
+      if (!result.issues) {
+        return { detail: result.value };
+      }
+
+      issues = result.issues;
+    }
+
+    if (
+      this.validationPolicy === "emit" &&
+      this.getListeners("validationFailed").size > 0
+    ) {
+      this.dispatchEvent(
+        EventEmitter.createEvent("validationFailed", { type, detail, issues }),
+      );
 
-    this.dispatchEvent(event);
+      return undefined;
+    }
 
-    return this;
+    throw new ValidationError(type, detail, issues);
   }
 
   /**
@@ -469,18 +2120,88 @@ export class EventEmitter<
    *
    * @param type name of the event
    * @param param1 the detail that should be applied to the event
+   * @param param2 Optional - whether the event bubbles to the parents of this emitter and passes boundaries, see {@link EmitOptions}
    * @returns a Promise that resolves with this
    */
   emit<Ev extends EventNames<UserEvents>>(
     type: Ev,
-    ...[detail]: CustomEventDetailParameter<UserEvents, Ev>
+    ...[detail, options]: CustomEventDetailAndOptionsParameters<
+      UserEvents,
+      Ev,
+      EmitOptions
+    >
   ): this {
-    // @ts-ignore <I don't know why this doesn't work>
-    this._emit(type, ...[detail]!);
+    this.applyMiddleware(
+      type,
+      detail,
+      false,
+      (context) => {
+        // @ts-ignore <I don't know why this doesn't work>
+        this._emit(context.type, context.detail, options);
+      },
+    );
 
     return this;
   }
 
+  /**
+   * Emit a cancelable event with given detail. Listeners can cancel it with `preventDefault`,
+   * listeners added with `on` get it with the second argument
+   *
+   * @param type name of the event
+   * @param param1 the detail that should be applied to the event
+   * @param param2 Optional - whether the event bubbles to the parents of this emitter and passes boundaries, see {@link EmitOptions}
+   * @returns false, if the event was canceled by a listener or not dispatched, because a middleware vetoed it, true otherwise
+   */
+  emitCancelable<Ev extends EventNames<UserEvents>>(
+    type: Ev,
+    ...[detail, options]: CustomEventDetailAndOptionsParameters<
+      UserEvents,
+      Ev,
+      EmitOptions
+    >
+  ): boolean {
+    let result = false;
+
+    this.applyMiddleware(
+      type,
+      detail,
+      false,
+      (context) => {
+        result = this.dispatchValidated(context.type, context.detail, {
+          ...options,
+          cancelable: true,
+        });
+      },
+    );
+
+    return result;
+  }
+
+  /**
+   * Decode an event serialized by a {@link Codec} and emit it
+   *
+   * @param data the event serialized to the binary format (`encode`) or to JSON (`stringify`)
+   * @throws a `TypeError`, if the data isn't an encoded event or the event is reserved, see {@link isReserved}
+   */
+  emitEncoded(data: Uint8Array | string): this {
+    const { type, detail } = typeof data === "string"
+      ? this.codec.parse(data)
+      : this.codec.decode(data);
+
+    // the data may come from anywhere
+    if (this.isReserved(type)) {
+      throw new TypeError(
+        `The reserved event "${
+          String(type)
+        }" can't be emitted from encoded data`,
+      );
+    }
+
+    // @ts-ignore <the detail belongs to the event>
+    return this.emit(type, detail);
+  }
+
   /**
    * Emits a reserved event.
    *
@@ -494,8 +2215,17 @@ export class EventEmitter<
     type: Ev,
     ...[detail]: CustomEventDetailParameter<ReservedEvents, Ev>
   ): this {
-    // @ts-ignore <I don't know why this doesn't work>
-    return this._emit(type, ...[detail]!);
+    this.applyMiddleware(
+      type,
+      detail,
+      true,
+      (context) => {
+        // @ts-ignore <I don't know why this doesn't work>
+        this._emit(context.type, context.detail);
+      },
+    );
+
+    return this;
   }
 
   /**
@@ -512,20 +2242,139 @@ export class EventEmitter<
     type: EvName,
     ...[detail]: CustomEventDetailParameter<CustomEventMap, EvName>
   ): this {
-    const event = EventEmitter.createEvent(type, detail);
+    this.applyMiddleware(
+      type,
+      detail,
+      false,
+      (context) => {
+        this.dispatchValidated(context.type, context.detail);
+      },
+    );
+
+    return this;
+  }
+
+  protected async _emitAsync<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    type: Ev,
+    detail?: ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>,
+    { mode = "parallel" }: EmitAsyncOptions = {},
+  ): Promise<this> {
+    const validated = this.validateDetail(type, detail);
+
+    if (!validated) {
+      return this;
+    }
+
+    const event = EventEmitter.createEvent(type, validated.detail);
+
+    this.__asyncEvents__.add(event);
+
+    this.recordHistory(type, event.detail);
+
+    const anyListeners = [...this.__anyListeners__.values()];
+
+    // copy the listeners, because `once` listeners remove themselves while we iterate
+    const listeners = [
+      ...anyListeners,
+      ...this.getListenerEntries(type).map(([, listener]) => listener),
+    ];
+
+    // like dispatchListeners, don't call callbacks removed by a previous one
+    const isRemoved = (listener: (typeof listeners)[number]) =>
+      !this.__listenerOptions__.has(listener) &&
+      !anyListeners.includes(listener);
+
+    const errors: unknown[] = [];
+
+    if (mode === "serial") {
+      for (const listener of listeners) {
+        if (event.cancelBubble) {
+          break;
+        }
+
+        if (isRemoved(listener)) {
+          continue;
+        }
+
+        try {
+          await listener(event);
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+    } else {
+      const results = await Promise.allSettled(
+        listeners.map(async (listener) => {
+          if (!isRemoved(listener)) {
+            await listener(event);
+          }
+        }),
+      );
+
+      for (const result of results) {
+        if (result.status === "rejected") {
+          errors.push(result.reason);
+        }
+      }
+    }
 
-    this.dispatchEvent(event);
+    if (errors.length > 0) {
+      throw new AggregateError(
+        errors,
+        `${errors.length} listener(s) of "${String(type)}" failed`,
+      );
+    }
 
     return this;
   }
 
+  /**
+   * Emit an event with given detail and wait for all listeners to settle.
+   * Unlike {@link emit}, promises returned by listeners are awaited.
+   *
+   * @param type name of the event
+   * @param param1 the detail that should be applied to the event
+   * @param param2 Optional - `mode` decides whether the listeners are awaited in parallel (default) or one after another
+   * @returns a Promise that resolves with this once all listeners have settled,
+   * or rejects with an `AggregateError` containing the errors of all failed listeners
+   */
+  emitAsync<Ev extends EventNames<UserEvents>>(
+    type: Ev,
+    ...[detail, options]: CustomEventDetailAndOptionsParameters<
+      UserEvents,
+      Ev,
+      EmitAsyncOptions
+    >
+  ): Promise<this> {
+    let promise: Promise<this> | undefined;
+
+    this.applyMiddleware(
+      type,
+      detail,
+      false,
+      (context) => {
+        // @ts-ignore <I don't know why this doesn't work>
+        promise = this._emitAsync(context.type, context.detail, options);
+      },
+    );
+
+    // the event was vetoed by a middleware
+    return promise ?? Promise.resolve(this);
+  }
+
   /**
    * wait for an event to be dispatched
    * @param type the typed name of the event
+   * @param options Optional - `timeout` in milliseconds, `signal` to stop waiting and `filter` to wait for a matching detail
    */
   pull<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
     type: Ev,
-  ): Promise<UserEvents[Ev]>;
+    options?: PullOptions<
+      ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>
+    >,
+  ): Promise<ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>>;
 
   /**
    * wait for an event to be dispatched and reject after a specific amount of milliseconds
@@ -535,39 +2384,256 @@ export class EventEmitter<
   pull<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
     type: Ev,
     timeout: number,
-  ): Promise<UserEvents[Ev]>;
+  ): Promise<ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>>;
 
   pull<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
     type: Ev,
-    timeout?: number,
-  ): Promise<UserEvents[Ev]> {
+    options:
+      | number
+      | PullOptions<ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>> =
+        {},
+  ): Promise<ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>> {
+    type Detail = ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>;
+
+    const { timeout, signal, filter }: PullOptions<Detail> =
+      typeof options === "number" ? { timeout: options } : options;
+
     return new Promise((resolve, reject) => {
-      let timeoutId: number;
+      let timeoutId: number | undefined;
 
-      const callback = ((
-        detail: ReservedOrUserListenerOnParams<
-          ReservedEvents,
-          UserEvents,
-          Ev
-        >,
-      ) => {
-        timeoutId && clearTimeout(timeoutId);
+      let settled = false;
+
+      const cleanup = () => {
+        settled = true;
+
+        clearTimeout(timeoutId);
+
+        signal?.removeEventListener("abort", onAbort);
+
+        this.off(type, callback);
+      };
+
+      const onAbort = () => {
+        cleanup();
+
+        reject(
+          new AbortError(`Stopped waiting for "${String(type)}"`, {
+            cause: signal!.reason,
+          }),
+        );
+      };
+
+      // the history is replayed oldest first, so the most recent matching detail is kept until it is over
+      let replaying = true;
+      let replayed: { detail: Detail } | undefined;
+
+      const callback = ((detail: Detail) => {
+        try {
+          if (filter && !filter(detail)) {
+            return;
+          }
+        } catch (error) {
+          cleanup();
+
+          reject(error);
+
+          return;
+        }
+
+        if (replaying) {
+          replayed = { detail };
+
+          return;
+        }
+
+        cleanup();
 
         resolve(detail);
       }) as ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>;
 
-      this.once(type, callback);
+      if (signal?.aborted) {
+        onAbort();
+
+        return;
+      }
+
+      this.on(type, callback);
+
+      replaying = false;
+
+      // the filter threw for a replayed detail
+      if (settled) {
+        return;
+      }
+
+      // a sticky event already fired
+      if (replayed) {
+        cleanup();
+
+        resolve(replayed.detail);
+
+        return;
+      }
+
+      signal?.addEventListener("abort", onAbort, { once: true });
 
       if (timeout) {
         timeoutId = setTimeout(() => {
-          clearTimeout(timeoutId!);
+          cleanup();
 
-          reject(new Error("Timed out!"));
+          reject(
+            new TimeoutError(
+              `Timed out after ${timeout}ms waiting for "${String(type)}"`,
+            ),
+          );
         }, timeout);
       }
     });
   }
 
+  /**
+   * iterate over all future dispatches of an event, e.g. with `for await`.
+   * Details that are dispatched while nobody waits for the next one are buffered.
+   * The listener is removed when the iteration is stopped (`break` / `return()`) or the signal is aborted.
+   * @param type the typed name of the event
+   * @param options Optional - `signal` to stop the iteration, `bufferSize` and `overflow` to limit the buffer
+   */
+  events<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    type: Ev,
+    { signal, bufferSize = Infinity, overflow = "error" }: EventsOptions = {},
+  ): AsyncIterableIterator<
+    ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>
+  > {
+    type Detail = ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>;
+
+    if (!(bufferSize >= 0)) {
+      throw new RangeError(
+        `bufferSize must be a non-negative number, received ${bufferSize}`,
+      );
+    }
+
+    const buffer: Detail[] = [];
+
+    const pending: {
+      resolve: (result: IteratorResult<Detail>) => void;
+      reject: (reason: unknown) => void;
+    }[] = [];
+
+    let done = false;
+
+    let hasError = false;
+
+    let error: unknown;
+
+    const finish = (withError = false, reason?: unknown) => {
+      if (done) {
+        return;
+      }
+
+      done = true;
+      hasError = withError;
+      error = reason;
+
+      this.off(type, callback);
+
+      signal?.removeEventListener("abort", onAbort);
+
+      // if there are pending promises, the buffer is empty
+      for (const { resolve, reject } of pending.splice(0)) {
+        if (hasError) {
+          hasError = false;
+
+          reject(error);
+        } else {
+          resolve({ value: undefined, done: true });
+        }
+      }
+    };
+
+    const onAbort = () => {
+      buffer.length = 0;
+
+      finish(true, signal!.reason);
+    };
+
+    const callback = ((detail: Detail) => {
+      if (pending.length > 0) {
+        pending.shift()!.resolve({ value: detail, done: false });
+
+        return;
+      }
+
+      if (buffer.length >= bufferSize) {
+        switch (overflow) {
+          case "drop-oldest":
+            buffer.shift();
+            break;
+          case "drop-newest":
+            return;
+          default:
+            finish(
+              true,
+              new Error(
+                `Buffer of "${
+                  String(type)
+                }" overflowed, the limit is ${bufferSize}`,
+              ),
+            );
+            return;
+        }
+      }
+
+      // with a bufferSize of 0, drop-oldest has nothing to drop
+      if (buffer.length < bufferSize) {
+        buffer.push(detail);
+      }
+    }) as ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>;
+
+    const iterator: AsyncIterableIterator<Detail> = {
+      next: () => {
+        if (buffer.length > 0) {
+          return Promise.resolve({ value: buffer.shift()!, done: false });
+        }
+
+        if (done) {
+          if (hasError) {
+            hasError = false;
+
+            return Promise.reject(error);
+          }
+
+          return Promise.resolve({ value: undefined, done: true });
+        }
+
+        return new Promise((resolve, reject) => {
+          pending.push({ resolve, reject });
+        });
+      },
+      return: () => {
+        buffer.length = 0;
+
+        finish();
+
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return iterator;
+      },
+    };
+
+    if (signal?.aborted) {
+      done = true;
+      hasError = true;
+      error = signal.reason;
+    } else {
+      this.on(type, callback);
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    return iterator;
+  }
+
   /**
    * same as emit. Used for pub / sub conventions
    */
@@ -578,19 +2644,162 @@ export class EventEmitter<
    * Returns a cleanup function to remove the added EventListener
    * @param type the event name the callback should listen to
    * @param callback the callback to execute when the event is dispatched
-   * @param options event options {@link EventTarget["addEventListener"]}
-   * @returns cleanup function
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   * @returns cleanup function, that can be used with `using` as well
    */
   subscribe<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
     type: Ev,
     callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
-    options?: Parameters<EventTarget["addEventListener"]>[2],
-  ): Fn<never[], void> {
+    options?: boolean | ListenerOptions,
+  ): Unsubscribe {
     this.on(type, callback, options);
 
-    return () => {
+    const unsubscribe = () => {
       this.off(type, callback);
     };
+
+    return Object.assign(unsubscribe, { [Symbol.dispose]: unsubscribe });
+  }
+
+  /**
+   * Create a group of listeners, that are removed together, e.g. when a component is torn down
+   * @param options Optional - a signal disposing the scope, see {@link ScopeOptions}
+   * @returns the scope, add listeners with its `on`, `once` and `subscribe` methods and remove them with `dispose` or `using`
+   */
+  scope(options?: ScopeOptions): EventScope<UserEvents, ReservedEvents> {
+    return new EventScope(this, options);
+  }
+
+  /**
+   * forward events to another emitter, optionally with other names and converted details
+   * @param target the emitter to forward the events to
+   * @param options the `events` to forward, their new names (`rename`) and functions converting their details (`transform`)
+   * @returns a function that stops forwarding the events
+   */
+  pipe<
+    TargetEvents extends CustomEventMap,
+    TargetReservedEvents extends CustomEventMap,
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+    Rename extends PipeRename<Ev, TargetEvents> = Record<never, never>,
+  >(
+    target: EventEmitter<TargetEvents, TargetReservedEvents>,
+    options:
+      & PipeOptions<ReservedEvents, UserEvents, TargetEvents, Ev, Rename>
+      & { reserved?: false },
+  ): Fn<never[], void>;
+
+  /**
+   * forward events to reserved events of another emitter, optionally with other names and converted details.
+   * The class of the target must accept them by overriding `acceptsPipedReserved`
+   * @param target the emitter to forward the events to
+   * @param options the `events` to forward, their new names (`rename`) and functions converting their details (`transform`)
+   * @returns a function that stops forwarding the events
+   * @throws a `TypeError`, if the target doesn't accept one of the reserved events
+   */
+  pipe<
+    TargetEvents extends CustomEventMap,
+    TargetReservedEvents extends CustomEventMap,
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+    Rename extends PipeRename<Ev, TargetReservedEvents> = Record<never, never>,
+  >(
+    target: EventEmitter<TargetEvents, TargetReservedEvents>,
+    options:
+      & PipeOptions<
+        ReservedEvents,
+        UserEvents,
+        TargetReservedEvents,
+        Ev,
+        Rename
+      >
+      & { reserved: true },
+  ): Fn<never[], void>;
+
+  pipe(
+    target: EventEmitter<CustomEventMap, CustomEventMap>,
+    { events, rename = {}, transform = {}, reserved = false }: {
+      events: EvName[];
+      rename?: Partial<Record<EvName, EvName>>;
+      transform?: Partial<Record<EvName, Fn<[detail: unknown], unknown>>>;
+      reserved?: boolean;
+    },
+  ): Fn<never[], void> {
+    const names = events.map((type) => rename[type] ?? type);
+
+    const rejected = reserved &&
+      names.find((name) => !target.acceptsPipedReserved(name));
+
+    if (rejected) {
+      throw new TypeError(
+        `${target.constructor.name} doesn't accept the reserved event "${
+          String(rejected)
+        }"`,
+      );
+    }
+
+    const listeners = events.map((type, i) => {
+      const listener = (detail: unknown) => {
+        const transformed = transform[type] ? transform[type]!(detail) : detail;
+
+        if (reserved) {
+          target.emitReserved(names[i], transformed);
+        } else {
+          target.emit(names[i], transformed);
+        }
+      };
+
+      // @ts-ignore <the listener accepts every detail>
+      this.on(type, listener);
+
+      return [type, listener] as const;
+    });
+
+    return () => {
+      for (const [type, listener] of listeners) {
+        // @ts-ignore <the listener accepts every detail>
+        this.off(type, listener);
+      }
+    };
+  }
+
+  /**
+   * create a stream of the details of an event, which can be transformed with operators like `map`, `filter` or `debounce`
+   * @param type the name of the event
+   */
+  stream<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    type: Ev,
+  ): EventStream<ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>> {
+    return new EventStream((next) => {
+      // a new function for every subscription, so that the same stream can be subscribed multiple times
+      const listener = (
+        detail: ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>,
+      ) => next(detail);
+
+      // @ts-ignore <the listener gets the detail of the event>
+      this.on(type, listener);
+
+      return () => {
+        // @ts-ignore <the listener gets the detail of the event>
+        this.off(type, listener);
+      };
+    });
+  }
+
+  /**
+   * Whether an event is reserved, so that it can't be emitted with `emitEncoded`. Only the built-in reserved events are known by default,
+   * override it in an extending class to add its own reserved events
+   * @param type the event name
+   */
+  protected isReserved(type: EvName): boolean {
+    return Object.hasOwn(builtInReservedEvents, type);
+  }
+
+  /**
+   * Whether reserved events can be piped into this emitter with `pipe`. No reserved events are accepted by default,
+   * override it in an extending class to accept them
+   * @param _type the name of the reserved event
+   */
+  protected acceptsPipedReserved(_type: EvName): boolean {
+    return false;
   }
 
   /**
@@ -610,13 +2819,14 @@ export class EventEmitter<
   >;
 
   /**
-   * Get all EventListeners for a specific Event
-   * @param type the event name
+   * Get all EventListeners for a specific Event, including the ones added with a matching pattern.
+   * If `type` is a pattern, the EventListeners of all events matching it are returned.
+   * @param type the event name or a pattern
    */
   getListeners<
     Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
   >(
-    type: string,
+    type: EvName,
   ): Set<
     ReservedOrUserListenerOnOrAddEventListener<
       ReservedEvents,
@@ -647,6 +2857,8 @@ export class EventEmitter<
         >
       >
     > {
+    this.removeCollectedListeners();
+
     const getListenersOfType = (type: Ev) => {
       const listeners = new Set<
         ReservedOrUserListenerOnOrAddEventListener<
@@ -656,12 +2868,14 @@ export class EventEmitter<
         >
       >();
 
-      const listenersMap = this.__listeners__.get(type);
-
-      if (listenersMap) {
-        for (const listener of listenersMap.keys()) {
-          listeners.add(listener);
-        }
+      for (const [callback] of this.__sortedListeners__.get(type) ?? []) {
+        listeners.add(
+          callback as ReservedOrUserListenerOnOrAddEventListener<
+            ReservedEvents,
+            UserEvents,
+            Ev
+          >,
+        );
       }
 
       return listeners;
@@ -688,10 +2902,46 @@ export class EventEmitter<
       return listeners;
     }
 
-    return getListenersOfType(type);
+    const listeners = new Set<
+      ReservedOrUserListenerOnOrAddEventListener<
+        ReservedEvents,
+        UserEvents,
+        Ev
+      >
+    >();
+
+    if (isPattern(type)) {
+      [...this.__listeners__.keys()]
+        .filter((key) => matchesPattern(type, key))
+        .forEach((key) => {
+          getListenersOfType(key as Ev).forEach((listener) => {
+            listeners.add(listener);
+          });
+        });
+    } else {
+      // in the order they are called
+      for (const [callback] of this.getListenerEntries(type)) {
+        listeners.add(
+          callback as ReservedOrUserListenerOnOrAddEventListener<
+            ReservedEvents,
+            UserEvents,
+            Ev
+          >,
+        );
+      }
+    }
+
+    return listeners;
   }
 
   listeners = this.getListeners;
+
+  /**
+   * Get all any-listeners, in the order they are called
+   */
+  getAnyListeners(): Set<AnyListener<ReservedEvents, UserEvents>> {
+    return new Set(this.__anyListeners__.keys());
+  }
 }
 
 export default EventEmitter;
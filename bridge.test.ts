@@ -0,0 +1,236 @@
+import { EventEmitter } from "./EventEmitter.ts";
+import { bridge } from "./bridge.ts";
+import { assertEquals, assertThrows } from "@std/assert";
+
+type Events = {
+  message: string;
+  count: number;
+  local: string;
+};
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+Deno.test("bridge", async (ctx) => {
+  await ctx.step("forwards events in both directions", async () => {
+    const { port1, port2 } = new MessageChannel();
+
+    const a = new EventEmitter<Events>();
+    const b = new EventEmitter<Events>();
+
+    const disconnectA = bridge(a, port1, { events: ["message", "count"] });
+    const disconnectB = bridge(b, port2, { events: ["message", "count"] });
+
+    const receivedA: unknown[] = [];
+    const receivedB: unknown[] = [];
+
+    a.on("message", (detail) => receivedA.push(detail));
+    a.on("count", (detail) => receivedA.push(detail));
+    b.on("message", (detail) => receivedB.push(detail));
+    b.on("local", (detail) => receivedB.push(detail));
+
+    a.emit("message", "from a");
+    a.emit("local", "not forwarded");
+    b.emit("count", 1);
+
+    await tick();
+
+    assertEquals(receivedA, ["from a", 1]);
+    assertEquals(receivedB, ["from a"]);
+
+    disconnectA();
+    disconnectB();
+
+    port1.close();
+    port2.close();
+  });
+
+  await ctx.step("drops events coming back in a loop", async () => {
+    const ab = new MessageChannel();
+    const bc = new MessageChannel();
+    const ca = new MessageChannel();
+
+    const a = new EventEmitter<Events>();
+    const b = new EventEmitter<Events>();
+    const c = new EventEmitter<Events>();
+
+    const disconnects = [
+      bridge(a, ab.port1, { events: ["message"] }),
+      bridge(b, ab.port2, { events: ["message"] }),
+      bridge(b, bc.port1, { events: ["message"] }),
+      bridge(c, bc.port2, { events: ["message"] }),
+      bridge(c, ca.port1, { events: ["message"] }),
+      bridge(a, ca.port2, { events: ["message"] }),
+    ];
+
+    const calls = { a: 0, b: 0, c: 0 };
+
+    a.on("message", () => calls.a++);
+    b.on("message", () => calls.b++);
+    c.on("message", () => calls.c++);
+
+    a.emit("message", "hello");
+
+    await tick();
+
+    assertEquals(calls, { a: 1, b: 1, c: 1 });
+
+    disconnects.forEach((disconnect) => disconnect());
+
+    for (const { port1, port2 } of [ab, bc, ca]) {
+      port1.close();
+      port2.close();
+    }
+  });
+
+  await ctx.step(
+    "drops events coming back in a loop, if middleware changes the detail",
+    async () => {
+      const ab = new MessageChannel();
+      const bc = new MessageChannel();
+      const ca = new MessageChannel();
+
+      const a = new EventEmitter<Events>();
+      const b = new EventEmitter<Events>();
+      const c = new EventEmitter<Events>();
+
+      for (const emitter of [a, b, c]) {
+        emitter.use((context, next) => {
+          context.detail = `${context.detail}!`;
+          next();
+        });
+      }
+
+      const disconnects = [
+        bridge(a, ab.port1, { events: ["message"] }),
+        bridge(b, ab.port2, { events: ["message"] }),
+        bridge(b, bc.port1, { events: ["message"] }),
+        bridge(c, bc.port2, { events: ["message"] }),
+        bridge(c, ca.port1, { events: ["message"] }),
+        bridge(a, ca.port2, { events: ["message"] }),
+      ];
+
+      const received = {
+        a: [] as string[],
+        b: [] as string[],
+        c: [] as string[],
+      };
+
+      a.on("message", (detail) => received.a.push(detail));
+      b.on("message", (detail) => received.b.push(detail));
+      c.on("message", (detail) => received.c.push(detail));
+
+      a.emit("message", "hello");
+
+      await tick();
+
+      assertEquals(received.a, ["hello!"]);
+      assertEquals(received.b, ["hello!!"]);
+      assertEquals(received.c.length, 1);
+
+      disconnects.forEach((disconnect) => disconnect());
+
+      for (const { port1, port2 } of [ab, bc, ca]) {
+        port1.close();
+        port2.close();
+      }
+    },
+  );
+
+  await ctx.step("sends events with the same detail again", async () => {
+    const { port1, port2 } = new MessageChannel();
+
+    const a = new EventEmitter<Events>();
+    const b = new EventEmitter<Events>();
+
+    const disconnectA = bridge(a, port1, { events: ["message"] });
+    const disconnectB = bridge(b, port2, { events: ["message"] });
+
+    const received: string[] = [];
+
+    a.on("message", (detail) => received.push(detail));
+
+    // b emits the detail it received again, e.g. as acknowledgement
+    b.once("message", (detail) => b.emit("message", detail));
+
+    a.emit("message", "ping");
+
+    await tick();
+
+    assertEquals(received, ["ping", "ping"]);
+
+    disconnectA();
+    disconnectB();
+    port1.close();
+    port2.close();
+  });
+
+  await ctx.step(
+    "sends events emitted in reaction to received ones",
+    async () => {
+      const { port1, port2 } = new MessageChannel();
+
+      const a = new EventEmitter<Events>();
+      const b = new EventEmitter<Events>();
+
+      const disconnects = [
+        bridge(a, port1, { events: ["message", "count"] }),
+        bridge(b, port2, { events: ["message", "count"] }),
+      ];
+
+      // replies synchronously, while the bridge emits the received event
+      b.on("message", (message) => b.emit("count", message.length));
+
+      const counts: number[] = [];
+
+      a.on("count", (count) => counts.push(count));
+
+      a.emit("message", "hello");
+
+      await tick();
+
+      assertEquals(counts, [5]);
+
+      disconnects.forEach((disconnect) => disconnect());
+
+      port1.close();
+      port2.close();
+    },
+  );
+
+  await ctx.step("throws for details that can't be cloned", () => {
+    const { port1, port2 } = new MessageChannel();
+
+    const a = new EventEmitter<Record<string, unknown>>({
+      errorPolicy: "rethrow-after-all",
+    });
+
+    const disconnect = bridge(a, port1, { events: ["fn"] });
+
+    const error = assertThrows(() => a.emit("fn", () => {}), AggregateError);
+
+    assertEquals(error.errors[0].name, "TypeError");
+
+    disconnect();
+
+    port1.close();
+    port2.close();
+  });
+
+  await ctx.step("throws for symbols", () => {
+    const { port1, port2 } = new MessageChannel();
+
+    const secret = Symbol("secret");
+
+    const a = new EventEmitter<{ [secret]: string }>();
+
+    assertThrows(
+      // @ts-expect-error <symbols can't be bridged>
+      () => bridge(a, port1, { events: [secret] }),
+      TypeError,
+      "can't be bridged",
+    );
+
+    port1.close();
+    port2.close();
+  });
+});
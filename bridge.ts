@@ -0,0 +1,208 @@
+import type {
+  BridgeMessage,
+  BridgeOptions,
+  BridgeTarget,
+  CustomEventMap,
+  EventNames,
+  EvName,
+  Fn,
+} from "./types.ts";
+import type { EventEmitter } from "./EventEmitter.ts";
+
+/**
+ * the ids of the emitters, shared by all bridges of an emitter
+ */
+const ids = new WeakMap<object, string>();
+
+/**
+ * the ids of the last messages each emitter received, to drop messages that come back in a loop
+ */
+const seen = new WeakMap<object, Set<string>>();
+
+/**
+ * how many message ids are kept per emitter
+ */
+const seenLimit = 1000;
+
+/**
+ * a message an emitter is emitting, the target it was received from and the event it is dispatched with
+ */
+interface Relay {
+  id: string;
+  origin: string;
+  type: string;
+  target?: BridgeTarget;
+  event?: Event;
+}
+
+/**
+ * the message an emitter is currently emitting, so that other bridges of the emitter forward it with its id and origin.
+ * The first bridge listener called while it is emitted claims the event, events the listeners emit in reaction to it are sent as new messages
+ */
+const relaying = new WeakMap<object, Relay>();
+
+/**
+ * the messages by the events they are dispatched with, so that all bridges of an emitter send an event with the same id
+ */
+const relayed = new WeakMap<Event, Relay>();
+
+function getId(emitter: object): string {
+  if (!ids.has(emitter)) {
+    ids.set(emitter, crypto.randomUUID());
+  }
+
+  return ids.get(emitter)!;
+}
+
+function isBridgeMessage(data: unknown): data is BridgeMessage {
+  return typeof data === "object" && data !== null &&
+    typeof (data as Partial<BridgeMessage>).evtemitter?.id === "string" &&
+    typeof (data as Partial<BridgeMessage>).evtemitter?.origin === "string" &&
+    typeof (data as Partial<BridgeMessage>).evtemitter?.type === "string";
+}
+
+/**
+ * remember the id of a received message
+ * @returns false, if the emitter already received the message
+ */
+function see(emitter: object, id: string): boolean {
+  if (!seen.has(emitter)) {
+    seen.set(emitter, new Set());
+  }
+
+  const ids = seen.get(emitter)!;
+
+  if (ids.has(id)) {
+    return false;
+  }
+
+  ids.add(id);
+
+  if (ids.size > seenLimit) {
+    ids.delete(ids.values().next().value!);
+  }
+
+  return true;
+}
+
+/**
+ * connect an emitter to a `MessagePort`, `BroadcastChannel` or `Worker`, so that the given events are forwarded in both directions.
+ * The emitter on the other side has to be connected to the other end with the same events.
+ * Events received from the other side aren't sent back and events that come back in a loop are dropped
+ * @param emitter the emitter to connect
+ * @param target the target to post messages to and receive them from
+ * @param options the events to forward
+ * @returns a function that disconnects the emitter from the target. The target isn't closed
+ * @throws a `TypeError`, if one of the events is a symbol, because it can't be sent
+ */
+export function bridge<
+  UserEvents extends CustomEventMap,
+  ReservedEvents extends CustomEventMap,
+>(
+  emitter: EventEmitter<UserEvents, ReservedEvents>,
+  target: BridgeTarget,
+  { events }: BridgeOptions<UserEvents>,
+): Fn<never[], void> {
+  const symbol = (events as EvName[]).find((type) => typeof type === "symbol");
+
+  if (symbol) {
+    throw new TypeError(
+      `The event ${
+        String(symbol)
+      } can't be bridged, only events with string names can be sent`,
+    );
+  }
+
+  const id = getId(emitter);
+
+  const listeners = events.map((type) => {
+    const listener = (event: CustomEvent) => {
+      let relay = relayed.get(event);
+
+      if (!relay) {
+        const current = relaying.get(emitter);
+
+        relay = current && !current.event && current.type === type
+          ? current
+          : { id: crypto.randomUUID(), origin: id, type };
+
+        relay.event = event;
+        relayed.set(event, relay);
+      }
+
+      // don't send the message back
+      if (relay.target === target) {
+        return;
+      }
+
+      const message: BridgeMessage = {
+        evtemitter: {
+          id: relay.id,
+          origin: relay.origin,
+          type,
+          detail: event.detail,
+        },
+      };
+
+      try {
+        target.postMessage(message);
+      } catch (error) {
+        throw new TypeError(
+          `The detail of "${
+            String(type)
+          }" can't be sent, it must be cloneable with the structured clone algorithm`,
+          { cause: error },
+        );
+      }
+    };
+
+    // called first, so that the relayed event is claimed before the listeners emit other events
+    // @ts-ignore <the listener accepts every detail>
+    emitter.addEventListener(type, listener, { priority: Infinity });
+
+    return [type, listener] as const;
+  });
+
+  const onMessage = ({ data }: MessageEvent) => {
+    if (!isBridgeMessage(data)) {
+      return;
+    }
+
+    const { id: messageId, origin, type, detail } = data.evtemitter;
+
+    if (
+      origin === id || !(events as EvName[]).includes(type) ||
+      !see(emitter, messageId)
+    ) {
+      return;
+    }
+
+    const previous = relaying.get(emitter);
+
+    relaying.set(emitter, { id: messageId, origin, type, target });
+
+    try {
+      // @ts-ignore <the type is one of the events>
+      emitter.emit(type as EventNames<UserEvents>, detail);
+    } finally {
+      if (previous) {
+        relaying.set(emitter, previous);
+      } else {
+        relaying.delete(emitter);
+      }
+    }
+  };
+
+  target.addEventListener("message", onMessage);
+
+  target.start?.();
+
+  return () => {
+    for (const [type, listener] of listeners) {
+      // @ts-ignore <the listener accepts every detail>
+      emitter.removeEventListener(type, listener);
+    }
+
+    target.removeEventListener("message", onMessage);
+  };
+}
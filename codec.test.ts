@@ -0,0 +1,113 @@
+import { Codec } from "./codec.ts";
+import { EventEmitter } from "./EventEmitter.ts";
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertThrows,
+  fail,
+} from "@std/assert";
+
+class Point {
+  constructor(public x: number, public y: number) {}
+}
+
+type Events = {
+  data: unknown;
+  point: Point;
+};
+
+const detail = {
+  date: new Date(0),
+  map: new Map<unknown, unknown>([["a", 1], [2, new Set([3n])]]),
+  bytes: new Uint8Array([0, 1, 255]),
+  numbers: [NaN, Infinity, -0.5, 2 ** 40],
+  missing: undefined,
+  nested: { $type: "not a tag", unicode: "äö😀" },
+  nothing: null,
+};
+
+Deno.test("Codec", async (ctx) => {
+  const codec = new Codec<Events>({
+    encoders: {
+      point: {
+        encode: ({ x, y }) => [x, y],
+        decode: ([x, y]) => new Point(x, y),
+      },
+    },
+  });
+
+  await ctx.step("JSON round trip", () => {
+    const text = codec.stringify({ type: "data", detail, meta: { id: 1 } });
+
+    assertEquals(typeof text, "string");
+    assertEquals(codec.parse(text), {
+      type: "data",
+      detail,
+      meta: { id: 1 },
+    });
+  });
+
+  await ctx.step("binary round trip", () => {
+    const bytes = codec.encode({ type: "data", detail });
+
+    assertInstanceOf(bytes, Uint8Array);
+    assertEquals(codec.decode(bytes), { type: "data", detail });
+  });
+
+  await ctx.step("custom encoders", () => {
+    const envelope = codec.fromEvent(
+      EventEmitter.createEvent<"point", Point>("point", new Point(1, 2)),
+    );
+
+    const decoded = codec.decode(codec.encode(envelope));
+
+    assertInstanceOf(decoded.detail, Point);
+    assertEquals(decoded.detail, new Point(1, 2));
+    assertInstanceOf(codec.parse(codec.stringify(envelope)).detail, Point);
+  });
+
+  await ctx.step("unsupported values", () => {
+    assertThrows(
+      () => codec.encode({ type: "data", detail: () => {} }),
+      TypeError,
+    );
+    assertThrows(
+      () => codec.stringify({ type: "data", detail: new Point(1, 2) }),
+      TypeError,
+      "register an encoder",
+    );
+    assertThrows(() => codec.decode(new Uint8Array([2])), TypeError);
+    assertThrows(() => codec.parse("{}"), TypeError);
+  });
+
+  await ctx.step("emitEncoded", () => {
+    const target = new EventEmitter<Events>({ codec });
+
+    const points: Point[] = [];
+
+    target.on("point", (point) => {
+      points.push(point);
+    });
+
+    const envelope = { type: "point" as const, detail: new Point(1, 2) };
+
+    target.emitEncoded(codec.encode(envelope));
+    target.emitEncoded(codec.stringify(envelope));
+
+    assertEquals(points, [new Point(1, 2), new Point(1, 2)]);
+  });
+
+  await ctx.step("emitEncoded rejects reserved events", () => {
+    const target = new EventEmitter<Events>({ codec });
+
+    target.on("error", () => fail());
+
+    const encoded = new Codec().stringify({ type: "error", detail: {} });
+
+    assertThrows(
+      () => target.emitEncoded(encoded),
+      TypeError,
+      'The reserved event "error"',
+    );
+  });
+});
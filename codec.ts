@@ -0,0 +1,515 @@
+import type {
+  CodecOptions,
+  CustomEventMap,
+  DetailEncoder,
+  EventEnvelope,
+  EventNames,
+  TypedCustomEvent,
+} from "./types.ts";
+import { fromEventType } from "./names.ts";
+
+/**
+ * the key of the objects, that represent values JSON doesn't support
+ */
+const TAG = "$type";
+
+/**
+ * the version of the binary format, it is the first byte
+ */
+const VERSION = 1;
+
+/**
+ * the first byte of every value in the binary format
+ */
+const BinaryTag = {
+  Undefined: 0,
+  Null: 1,
+  False: 2,
+  True: 3,
+  Number: 4,
+  String: 5,
+  BigInt: 6,
+  Array: 7,
+  Object: 8,
+  Date: 9,
+  Map: 10,
+  Set: 11,
+  Bytes: 12,
+} as const;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+}
+
+function unsupported(value: unknown): TypeError {
+  return new TypeError(`Can't encode a value of type ${typeof value}`);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+/**
+ * convert a value to a value `JSON.stringify` keeps as it is, values JSON doesn't support are tagged
+ */
+function toJSONValue(value: unknown): unknown {
+  switch (typeof value) {
+    case "string":
+    case "boolean":
+      return value;
+    case "number":
+      return Number.isFinite(value)
+        ? value
+        : { [TAG]: "Number", value: String(value) };
+    case "bigint":
+      return { [TAG]: "BigInt", value: value.toString() };
+    case "undefined":
+      return { [TAG]: "undefined" };
+    case "object":
+      break;
+    default:
+      throw unsupported(value);
+  }
+
+  if (value === null) {
+    return null;
+  } else if (Array.isArray(value)) {
+    return value.map(toJSONValue);
+  } else if (value instanceof Date) {
+    return { [TAG]: "Date", value: value.getTime() };
+  } else if (value instanceof Map) {
+    return {
+      [TAG]: "Map",
+      value: [...value].map(([key, value]) => [
+        toJSONValue(key),
+        toJSONValue(value),
+      ]),
+    };
+  } else if (value instanceof Set) {
+    return { [TAG]: "Set", value: [...value].map(toJSONValue) };
+  } else if (value instanceof Uint8Array) {
+    return { [TAG]: "Uint8Array", value: toBase64(value) };
+  } else if (!isPlainObject(value)) {
+    throw new TypeError(
+      `Can't encode an instance of ${value.constructor.name}, register an encoder for the event`,
+    );
+  }
+
+  const object = Object.fromEntries(
+    Object.entries(value).map(([key, value]) => [key, toJSONValue(value)]),
+  );
+
+  // objects with the tag as key have to be tagged themselves
+  return TAG in object ? { [TAG]: "Object", value: object } : object;
+}
+
+/**
+ * the reverse of {@link toJSONValue}
+ */
+function fromJSONValue(value: unknown): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  } else if (Array.isArray(value)) {
+    return value.map(fromJSONValue);
+  }
+
+  const object = value as Record<string, unknown>;
+
+  // deno-lint-ignore no-explicit-any
+  const tagged = object.value as any;
+
+  switch (object[TAG]) {
+    case undefined:
+      break;
+    case "Number":
+      return Number(tagged);
+    case "BigInt":
+      return BigInt(tagged);
+    case "undefined":
+      return undefined;
+    case "Date":
+      return new Date(tagged);
+    case "Map":
+      return new Map(
+        (tagged as [unknown, unknown][]).map(([key, value]) => [
+          fromJSONValue(key),
+          fromJSONValue(value),
+        ]),
+      );
+    case "Set":
+      return new Set((tagged as unknown[]).map(fromJSONValue));
+    case "Uint8Array":
+      return fromBase64(tagged);
+    case "Object":
+      return fromPlainJSONObject(tagged);
+    default:
+      throw new TypeError(`Unknown tag "${object[TAG]}"`);
+  }
+
+  return fromPlainJSONObject(object);
+}
+
+function fromPlainJSONObject(
+  object: Record<string, unknown>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(object).map(([key, value]) => [key, fromJSONValue(value)]),
+  );
+}
+
+/**
+ * Writes values in the compact binary format
+ */
+class BinaryWriter {
+  protected bytes: number[] = [];
+
+  protected view = new DataView(new ArrayBuffer(8));
+
+  get result(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+
+  protected writeLength(length: number): void {
+    // unsigned LEB128
+    do {
+      let byte = length & 0x7f;
+
+      length >>>= 7;
+
+      if (length !== 0) {
+        byte |= 0x80;
+      }
+
+      this.bytes.push(byte);
+    } while (length !== 0);
+  }
+
+  protected writeFloat(number: number): void {
+    this.view.setFloat64(0, number);
+
+    for (let i = 0; i < 8; i++) {
+      this.bytes.push(this.view.getUint8(i));
+    }
+  }
+
+  protected writeRaw(bytes: Uint8Array): void {
+    this.writeLength(bytes.length);
+
+    for (const byte of bytes) {
+      this.bytes.push(byte);
+    }
+  }
+
+  writeByte(byte: number): void {
+    this.bytes.push(byte);
+  }
+
+  write(value: unknown): void {
+    switch (typeof value) {
+      case "undefined":
+        return this.writeByte(BinaryTag.Undefined);
+      case "boolean":
+        return this.writeByte(value ? BinaryTag.True : BinaryTag.False);
+      case "number":
+        this.writeByte(BinaryTag.Number);
+        return this.writeFloat(value);
+      case "string":
+        this.writeByte(BinaryTag.String);
+        return this.writeRaw(encoder.encode(value));
+      case "bigint":
+        this.writeByte(BinaryTag.BigInt);
+        return this.writeRaw(encoder.encode(value.toString()));
+      case "object":
+        break;
+      default:
+        throw unsupported(value);
+    }
+
+    if (value === null) {
+      this.writeByte(BinaryTag.Null);
+    } else if (Array.isArray(value)) {
+      this.writeByte(BinaryTag.Array);
+      this.writeLength(value.length);
+      value.forEach((item) => this.write(item));
+    } else if (value instanceof Date) {
+      this.writeByte(BinaryTag.Date);
+      this.writeFloat(value.getTime());
+    } else if (value instanceof Map) {
+      this.writeByte(BinaryTag.Map);
+      this.writeLength(value.size);
+      value.forEach((value, key) => {
+        this.write(key);
+        this.write(value);
+      });
+    } else if (value instanceof Set) {
+      this.writeByte(BinaryTag.Set);
+      this.writeLength(value.size);
+      value.forEach((item) => this.write(item));
+    } else if (value instanceof Uint8Array) {
+      this.writeByte(BinaryTag.Bytes);
+      this.writeRaw(value);
+    } else if (isPlainObject(value)) {
+      const entries = Object.entries(value);
+
+      this.writeByte(BinaryTag.Object);
+      this.writeLength(entries.length);
+      entries.forEach(([key, value]) => {
+        this.writeRaw(encoder.encode(key));
+        this.write(value);
+      });
+    } else {
+      throw new TypeError(
+        `Can't encode an instance of ${value.constructor.name}, register an encoder for the event`,
+      );
+    }
+  }
+}
+
+/**
+ * Reads values in the compact binary format
+ */
+class BinaryReader {
+  protected offset = 0;
+
+  protected view: DataView;
+
+  constructor(protected bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  protected readLength(): number {
+    let length = 0;
+    let shift = 0;
+    let byte: number;
+
+    do {
+      byte = this.readByte();
+      length += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+
+    return length;
+  }
+
+  protected readFloat(): number {
+    const number = this.view.getFloat64(this.offset);
+
+    this.offset += 8;
+
+    return number;
+  }
+
+  protected readRaw(): Uint8Array {
+    const length = this.readLength();
+
+    if (this.offset + length > this.bytes.length) {
+      throw new RangeError("Unexpected end of the encoded event");
+    }
+
+    return this.bytes.slice(this.offset, this.offset += length);
+  }
+
+  protected readString(): string {
+    return decoder.decode(this.readRaw());
+  }
+
+  readByte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new RangeError("Unexpected end of the encoded event");
+    }
+
+    return this.bytes[this.offset++];
+  }
+
+  read(): unknown {
+    const tag = this.readByte();
+
+    switch (tag) {
+      case BinaryTag.Undefined:
+        return undefined;
+      case BinaryTag.Null:
+        return null;
+      case BinaryTag.False:
+        return false;
+      case BinaryTag.True:
+        return true;
+      case BinaryTag.Number:
+        return this.readFloat();
+      case BinaryTag.String:
+        return this.readString();
+      case BinaryTag.BigInt:
+        return BigInt(this.readString());
+      case BinaryTag.Array:
+        return Array.from({ length: this.readLength() }, () => this.read());
+      case BinaryTag.Date:
+        return new Date(this.readFloat());
+      case BinaryTag.Map: {
+        const map = new Map();
+
+        for (let i = this.readLength(); i > 0; i--) {
+          const key = this.read();
+
+          map.set(key, this.read());
+        }
+
+        return map;
+      }
+      case BinaryTag.Set:
+        return new Set(
+          Array.from({ length: this.readLength() }, () => this.read()),
+        );
+      case BinaryTag.Bytes:
+        return this.readRaw();
+      case BinaryTag.Object: {
+        const object: Record<string, unknown> = {};
+
+        for (let i = this.readLength(); i > 0; i--) {
+          const key = this.readString();
+
+          object[key] = this.read();
+        }
+
+        return object;
+      }
+      default:
+        throw new TypeError(`Unknown tag ${tag}`);
+    }
+  }
+}
+
+/**
+ * Serializes events to JSON or a compact binary format and back.
+ * Besides the values JSON supports, `undefined`, `NaN`, `Infinity`, `BigInt`, `Date`, `Map`, `Set` and `Uint8Array` are supported.
+ * Other values, like class instances, need an encoder for the event
+ *
+ * @typeParam Events - `CustomEventMap` of the events to serialize
+ */
+export class Codec<Events extends CustomEventMap = CustomEventMap> {
+  protected encoders: NonNullable<CodecOptions<Events>["encoders"]>;
+
+  /**
+   * @param options Optional - custom encoders for the details of specific events
+   */
+  constructor({ encoders = {} }: CodecOptions<Events> = {}) {
+    this.encoders = encoders;
+  }
+
+  /**
+   * create an envelope from an event created with `EventEmitter.createEvent`
+   * @param event the event
+   * @param meta Optional - metadata to send along with the event
+   */
+  fromEvent<Ev extends EventNames<Events>>(
+    event: TypedCustomEvent<Ev, Events[Ev]>,
+    meta?: Record<string, unknown>,
+  ): EventEnvelope<Events, Ev> {
+    const type = fromEventType(event.type) as Ev;
+
+    return meta === undefined
+      ? { type, detail: event.detail }
+      : { type, detail: event.detail, meta };
+  }
+
+  /**
+   * convert an envelope to a value, which only contains values the format supports
+   */
+  protected pack({ type, detail, meta }: EventEnvelope<Events>): unknown[] {
+    const encoder = this.encoders[type] as
+      | DetailEncoder<Events[EventNames<Events>]>
+      | undefined;
+
+    return [type, encoder ? encoder.encode(detail) : detail, meta];
+  }
+
+  /**
+   * the reverse of {@link pack}
+   */
+  protected unpack(packed: unknown): EventEnvelope<Events> {
+    if (!Array.isArray(packed) || typeof packed[0] !== "string") {
+      throw new TypeError("The data isn't an encoded event");
+    }
+
+    const [type, detail, meta] = packed as [
+      EventNames<Events>,
+      unknown,
+      Record<string, unknown> | undefined,
+    ];
+
+    const encoder = this.encoders[type];
+
+    const envelope: EventEnvelope<Events> = {
+      type,
+      detail: (encoder ? encoder.decode(detail) : detail) as Events[
+        EventNames<Events>
+      ],
+    };
+
+    if (meta !== undefined) {
+      envelope.meta = meta;
+    }
+
+    return envelope;
+  }
+
+  /**
+   * serialize an event to JSON
+   * @param envelope the event
+   */
+  stringify(envelope: EventEnvelope<Events>): string {
+    return JSON.stringify(toJSONValue(this.pack(envelope)));
+  }
+
+  /**
+   * deserialize an event serialized by {@link stringify}
+   * @param text the JSON
+   */
+  parse(text: string): EventEnvelope<Events> {
+    return this.unpack(fromJSONValue(JSON.parse(text)));
+  }
+
+  /**
+   * serialize an event to the compact binary format
+   * @param envelope the event
+   */
+  encode(envelope: EventEnvelope<Events>): Uint8Array {
+    const writer = new BinaryWriter();
+
+    writer.writeByte(VERSION);
+    writer.write(this.pack(envelope));
+
+    return writer.result;
+  }
+
+  /**
+   * deserialize an event serialized by {@link encode}
+   * @param bytes the binary data
+   */
+  decode(bytes: Uint8Array): EventEnvelope<Events> {
+    const reader = new BinaryReader(bytes);
+
+    const version = reader.readByte();
+
+    if (version !== VERSION) {
+      throw new TypeError(
+        `Unsupported version ${version} of the binary format`,
+      );
+    }
+
+    return this.unpack(reader.read());
+  }
+}
@@ -0,0 +1,68 @@
+import type { EvName, RpcErrorCode, ValidationIssue } from "./types.ts";
+
+/**
+ * The error `pull` rejects with, when the event wasn't dispatched in time
+ */
+export class TimeoutError extends Error {
+  override name = "TimeoutError";
+}
+
+/**
+ * The error `pull` rejects with, when its signal is aborted.
+ * The reason of the signal is the `cause` of the error
+ */
+export class AbortError extends Error {
+  override name = "AbortError";
+}
+
+/**
+ * The error thrown when the detail of an emitted event is rejected by its validator
+ */
+export class ValidationError extends Error {
+  override name = "ValidationError";
+
+  /**
+   * @param type the name of the event
+   * @param detail the invalid detail
+   * @param issues the issues found by the validator
+   */
+  constructor(
+    readonly type: EvName,
+    readonly detail: unknown,
+    readonly issues: ReadonlyArray<ValidationIssue>,
+  ) {
+    super(
+      `Invalid detail for "${String(type)}": ${
+        issues.map(({ message }) => message).join(", ")
+      }`,
+    );
+  }
+}
+
+/**
+ * The error `request` of an `RpcEmitter` rejects with, when there is no handler for the method, the handler failed or nobody answered in time.
+ * The error of the handler (its `name` and `message`) or the `TimeoutError` is the `cause`
+ */
+export class RpcError extends Error {
+  override name = "RpcError";
+
+  /**
+   * @param method the name of the method
+   * @param code why the request failed
+   * @param options Optional - the error of the handler as `cause`
+   */
+  constructor(
+    readonly method: EvName,
+    readonly code: RpcErrorCode,
+    options?: ErrorOptions,
+  ) {
+    super(
+      code === "no-handler"
+        ? `There is no handler for "${String(method)}"`
+        : code === "timeout"
+        ? `Nobody answered the request "${String(method)}" in time`
+        : `The handler of "${String(method)}" failed`,
+      options,
+    );
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * The CustomEvent created by `EventEmitter.createEvent`. It remembers, whether its propagation was stopped,
+ * because the EventTarget resets the flags after the dispatch, but an event emitted by a child emitter
+ * is dispatched to its parents afterwards
+ */
+export class EmitterEvent<Detail = unknown> extends CustomEvent<Detail> {
+  /**
+   * whether a listener called `stopPropagation` or `stopImmediatePropagation`
+   */
+  propagationStopped = false;
+
+  /**
+   * whether a listener called `stopImmediatePropagation`
+   */
+  immediatePropagationStopped = false;
+
+  override stopPropagation(): void {
+    this.propagationStopped = true;
+
+    super.stopPropagation();
+  }
+
+  override stopImmediatePropagation(): void {
+    this.propagationStopped = true;
+    this.immediatePropagationStopped = true;
+
+    super.stopImmediatePropagation();
+  }
+}
@@ -1,3 +1,15 @@
 export * from "./types.ts";
 export { EventEmitter } from "./EventEmitter.ts";
 export { default } from "./EventEmitter.ts";
+export {
+  AbortError,
+  RpcError,
+  TimeoutError,
+  ValidationError,
+} from "./errors.ts";
+export { bridge } from "./bridge.ts";
+export { Codec } from "./codec.ts";
+export { EventStream } from "./stream.ts";
+export { RpcEmitter } from "./rpc.ts";
+export { EventScope } from "./scope.ts";
+export { defineEvents, StrictEmitter } from "./strict.ts";
@@ -0,0 +1,42 @@
+import type { EvName } from "./types.ts";
+
+/**
+ * the event types of symbol event names, because the EventTarget only accepts strings.
+ * The symbols are kept, like event names usually are
+ */
+const symbolTypes = new Map<symbol, string>();
+
+/**
+ * the symbol event names of the event types in {@link symbolTypes}
+ */
+const typeSymbols = new Map<string, symbol>();
+
+/**
+ * get the type of the events for an event name, which is the name itself, if it is a string,
+ * or a unique string for a symbol
+ * @param name the event name
+ */
+export function toEventType(name: EvName): string {
+  if (typeof name === "string") {
+    return name;
+  }
+
+  let type = symbolTypes.get(name);
+
+  if (type === undefined) {
+    type = `@@evtemitter.symbol.${symbolTypes.size}(${name.description ?? ""})`;
+
+    symbolTypes.set(name, type);
+    typeSymbols.set(type, name);
+  }
+
+  return type;
+}
+
+/**
+ * the reverse of {@link toEventType}
+ * @param type the type of an event
+ */
+export function fromEventType(type: string): EvName {
+  return typeSymbols.get(type) ?? type;
+}
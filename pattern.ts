@@ -0,0 +1,57 @@
+import type { EvName } from "./types.ts";
+
+/**
+ * the separator of the segments of namespaced event names like `user.created`
+ */
+const SEPARATOR = ".";
+
+/**
+ * check whether an event name is a pattern, which means that one of its segments is `*` or `**`
+ * @param type the event name
+ */
+export function isPattern(type: EvName): boolean {
+  // symbols aren't namespaced
+  return typeof type === "string" &&
+    type.split(SEPARATOR).some((segment) =>
+      segment === "*" || segment === "**"
+    );
+}
+
+/**
+ * check whether an event name matches a pattern.
+ * `*` matches exactly one segment, `**` matches any number of segments (including none)
+ * @param pattern the pattern, e.g. `user.*`
+ * @param type the event name, e.g. `user.created`
+ */
+export function matchesPattern(pattern: EvName, type: EvName): boolean {
+  if (typeof pattern === "symbol" || typeof type === "symbol") {
+    return pattern === type;
+  }
+
+  return matchSegments(pattern.split(SEPARATOR), type.split(SEPARATOR));
+}
+
+function matchSegments(pattern: string[], type: string[]): boolean {
+  if (pattern.length === 0) {
+    return type.length === 0;
+  }
+
+  const [head, ...rest] = pattern;
+
+  if (head === "**") {
+    for (let i = 0; i <= type.length; i++) {
+      if (matchSegments(rest, type.slice(i))) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  if (type.length === 0) {
+    return false;
+  }
+
+  return (head === "*" || head === type[0]) &&
+    matchSegments(rest, type.slice(1));
+}
@@ -0,0 +1,225 @@
+import { RpcEmitter } from "./rpc.ts";
+import { bridge } from "./bridge.ts";
+import { RpcError, TimeoutError } from "./errors.ts";
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+  assertThrows,
+} from "@std/assert";
+
+type Methods = {
+  add: { request: [number, number]; response: number };
+  fail: { request: string; response: never };
+  slow: { request: undefined; response: string };
+};
+
+Deno.test("RpcEmitter", async (ctx) => {
+  await ctx.step("local handler", async () => {
+    const rpc = new RpcEmitter<Methods>();
+
+    const unhandle = rpc.handle("add", ([a, b]) => a + b);
+
+    assertEquals(await rpc.request("add", [1, 2]), 3);
+
+    assertThrows(
+      () => rpc.handle("add", ([a, b]) => a - b),
+      Error,
+      '"add" already has a handler',
+    );
+
+    unhandle();
+
+    const error = await assertRejects(
+      () => rpc.request("add", [1, 2]),
+      RpcError,
+    );
+
+    assertEquals(error.code, "no-handler");
+  });
+
+  await ctx.step("failing handler", async () => {
+    const rpc = new RpcEmitter<Methods>();
+
+    rpc.handle("fail", (message) => {
+      throw new Error(message);
+    });
+
+    const error = await assertRejects(
+      () => rpc.request("fail", "broken"),
+      RpcError,
+    );
+
+    assertEquals(error.code, "handler-failed");
+    assertEquals((error.cause as Error).message, "broken");
+  });
+
+  await ctx.step("across a transport", async () => {
+    const { port1, port2 } = new MessageChannel();
+
+    const client = new RpcEmitter<Methods>();
+    const server = new RpcEmitter<Methods>();
+
+    const events = ["rpc.request", "rpc.response"] as const;
+
+    const disconnect = [
+      bridge(client, port1, { events: [...events] }),
+      bridge(server, port2, { events: [...events] }),
+    ];
+
+    server.handle("add", async ([a, b]) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      return a + b;
+    });
+
+    server.handle("fail", (message) => {
+      throw new TypeError(message);
+    });
+
+    const [sum, failed, missing] = await Promise.allSettled([
+      client.request("add", [2, 3]),
+      client.request("fail", "remote"),
+      client.request("slow", undefined, { timeout: 20 }),
+    ]);
+
+    assertEquals(sum, { status: "fulfilled", value: 5 });
+
+    assertEquals(failed.status, "rejected");
+    const failure = (failed as PromiseRejectedResult).reason;
+    assertInstanceOf(failure, RpcError);
+    assertEquals(failure.code, "handler-failed");
+    assertEquals(failure.cause, { name: "TypeError", message: "remote" });
+
+    assertEquals(missing.status, "rejected");
+    const unhandled = (missing as PromiseRejectedResult).reason;
+    assertInstanceOf(unhandled, RpcError);
+    assertEquals(unhandled.code, "no-handler");
+    assertInstanceOf(unhandled.cause, TimeoutError);
+
+    disconnect.forEach((disconnect) => disconnect());
+
+    await assertRejects(
+      () => client.request("add", [1, 1], { timeout: 10 }),
+      RpcError,
+      'There is no handler for "add"',
+    );
+
+    port1.close();
+    port2.close();
+  });
+
+  await ctx.step(
+    "rejects requests to emitters without a handler after the default timeout",
+    async () => {
+      const { port1, port2 } = new MessageChannel();
+
+      const client = new RpcEmitter<Methods>();
+      const server = new RpcEmitter<Methods>();
+
+      const events: ["rpc.request", "rpc.response"] = [
+        "rpc.request",
+        "rpc.response",
+      ];
+
+      const disconnect = [
+        bridge(client, port1, { events }),
+        bridge(server, port2, { events }),
+      ];
+
+      const listeners = client.getListeners("rpc.response").size;
+
+      const { defaultTimeout } = RpcEmitter;
+
+      RpcEmitter.defaultTimeout = 20;
+
+      try {
+        const error = await assertRejects(
+          () => client.request("add", [1, 2]),
+          RpcError,
+          'There is no handler for "add"',
+        );
+
+        assertEquals(error.code, "no-handler");
+      } finally {
+        RpcEmitter.defaultTimeout = defaultTimeout;
+      }
+
+      assertEquals(client.getListeners("rpc.response").size, listeners);
+
+      disconnect.forEach((disconnect) => disconnect());
+
+      port1.close();
+      port2.close();
+    },
+  );
+
+  await ctx.step("waits for the emitter with a handler", async () => {
+    const idle = new MessageChannel();
+    const serving = new MessageChannel();
+
+    const client = new RpcEmitter<Methods>();
+    const peer = new RpcEmitter<Methods>();
+    const server = new RpcEmitter<Methods>();
+
+    const events: ["rpc.request", "rpc.response"] = [
+      "rpc.request",
+      "rpc.response",
+    ];
+
+    const disconnect = [
+      bridge(client, idle.port1, { events }),
+      bridge(peer, idle.port2, { events }),
+      bridge(client, serving.port1, { events }),
+      bridge(server, serving.port2, { events }),
+    ];
+
+    server.handle("add", async ([a, b]) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      return a + b;
+    });
+
+    assertEquals(await client.request("add", [2, 3], { timeout: 100 }), 5);
+
+    disconnect.forEach((disconnect) => disconnect());
+
+    [idle, serving].forEach(({ port1, port2 }) => {
+      port1.close();
+      port2.close();
+    });
+  });
+
+  await ctx.step("stops waiting, if the request can't be sent", async () => {
+    const rpc = new RpcEmitter<Methods>({ errorPolicy: "rethrow-after-all" });
+
+    rpc.on("rpc.request", () => {
+      throw new Error("can't send");
+    });
+
+    await assertRejects(
+      () => rpc.request("slow", undefined, { timeout: 10 }),
+      AggregateError,
+    );
+
+    assertEquals(rpc.getListeners("rpc.response").size, 0);
+
+    // the timeout would reject after the test otherwise
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  });
+
+  await ctx.step("timeout", async () => {
+    const rpc = new RpcEmitter<Methods>();
+
+    // a listener that never answers
+    rpc.on("rpc.request", () => {});
+
+    const error = await assertRejects(
+      () => rpc.request("slow", undefined, { timeout: 10 }),
+      RpcError,
+    );
+
+    assertEquals(error.code, "timeout");
+    assertInstanceOf(error.cause, TimeoutError);
+  });
+});
@@ -0,0 +1,210 @@
+import type {
+  CustomEventMap,
+  EventEmitterOptions,
+  EventNames,
+  EvName,
+  Fn,
+  RequestOptions,
+  RpcEvents,
+  RpcMethods,
+  RpcRequest,
+  RpcResponse,
+} from "./types.ts";
+import { EventEmitter } from "./EventEmitter.ts";
+import { RpcError, TimeoutError } from "./errors.ts";
+
+/**
+ * An `EventEmitter` with typed request/response pairs. Requests and responses are sent as `rpc.request` and `rpc.response` events,
+ * so that they work across transports forwarding them, like `bridge`
+ *
+ * @typeParam Methods - the request/response pairs, the key is the name of the method
+ * @typeParam UserEvents - `CustomEventMap` of user-defined events
+ * @typeParam ReservedEvents - `CustomEventMap` of reserved events
+ */
+export class RpcEmitter<
+  Methods extends RpcMethods,
+  UserEvents extends CustomEventMap = Record<never, never>,
+  ReservedEvents extends CustomEventMap = Record<never, never>,
+> extends EventEmitter<UserEvents & RpcEvents, ReservedEvents> {
+  /**
+   * @var __handlers__ the handlers of the methods, registered with `handle`
+   */
+  protected __handlers__: Map<EvName, Fn<[detail: unknown], unknown>> =
+    new Map();
+
+  /**
+   * @var __requests__ the ids of the requests sent by this emitter, that weren't answered yet
+   */
+  protected __requests__: Set<string> = new Set();
+
+  /**
+   * The milliseconds a request sent to other emitters waits for a response of a handler, if it doesn't set its own `timeout`
+   */
+  static defaultTimeout = 30_000;
+
+  /**
+   * @param options Optional - options for the emitter
+   */
+  constructor(options: EventEmitterOptions<UserEvents & RpcEvents> = {}) {
+    super(options);
+
+    // @ts-ignore <the detail of rpc.request is a RpcRequest>
+    this.on("rpc.request", this.onRequest);
+  }
+
+  /**
+   * answer a request sent by another emitter
+   */
+  protected onRequest = async ({ id, method, detail }: RpcRequest) => {
+    // the request was sent by this emitter
+    if (this.__requests__.has(id)) {
+      return;
+    }
+
+    const handler = this.__handlers__.get(method);
+
+    let response: RpcResponse;
+
+    if (!handler) {
+      // another emitter receiving the request may have a handler, the requesting emitter keeps waiting for it
+      response = { id, method, ok: false, code: "no-handler" };
+    } else {
+      try {
+        response = { id, method, ok: true, result: await handler(detail) };
+      } catch (error) {
+        response = {
+          id,
+          method,
+          ok: false,
+          code: "handler-failed",
+          error: error instanceof Error
+            ? { name: error.name, message: error.message }
+            : { name: "Error", message: String(error) },
+        };
+      }
+    }
+
+    // @ts-ignore <the detail of rpc.response is a RpcResponse>
+    this.emit("rpc.response", response);
+  };
+
+  /**
+   * register the handler of a method. A method can only have one handler
+   * @param method the name of the method
+   * @param handler gets called with the detail of the request and returns the response
+   * @returns a function that removes the handler
+   * @throws an `Error`, if the method already has a handler
+   */
+  handle<M extends EventNames<Methods>>(
+    method: M,
+    handler: Fn<
+      [detail: Methods[M]["request"]],
+      Methods[M]["response"] | Promise<Methods[M]["response"]>
+    >,
+  ): Fn<never[], void> {
+    if (this.__handlers__.has(method)) {
+      throw new Error(`"${String(method)}" already has a handler`);
+    }
+
+    this.__handlers__.set(method, handler);
+
+    return () => {
+      if (this.__handlers__.get(method) === handler) {
+        this.__handlers__.delete(method);
+      }
+    };
+  }
+
+  /**
+   * send a request and wait for the response
+   * @param method the name of the method
+   * @param detail the detail of the request
+   * @param options Optional - `timeout` in milliseconds ({@link defaultTimeout} by default) and `signal` to stop waiting
+   * @returns a Promise resolving with the response
+   * @throws a `RpcError`, if there is no handler for the method, the handler failed or there was no response in time,
+   * an `AbortError`, if the signal was aborted.
+   * Emitters without a handler answer with `no-handler`, but the request waits for another emitter with a handler until the `timeout`
+   */
+  async request<M extends EventNames<Methods>>(
+    method: M,
+    detail: Methods[M]["request"],
+    options: RequestOptions = {},
+  ): Promise<Methods[M]["response"]> {
+    const handler = this.__handlers__.get(method);
+
+    // a local handler is called directly, so that it is the one answering
+    if (handler) {
+      try {
+        return await handler(detail) as Methods[M]["response"];
+      } catch (error) {
+        throw new RpcError(method, "handler-failed", { cause: error });
+      }
+    }
+
+    // nobody but this emitter listens for requests
+    if (
+      ![...this.getListeners("rpc.request")].some((listener) =>
+        listener !== this.onRequest
+      )
+    ) {
+      throw new RpcError(method, "no-handler");
+    }
+
+    const id = crypto.randomUUID();
+
+    this.__requests__.add(id);
+
+    // stops waiting for the response, if the request couldn't be sent
+    const controller = new AbortController();
+
+    // an emitter without a handler answered
+    let unhandled = false;
+
+    try {
+      const promise: Promise<RpcResponse> = this.pull("rpc.response", {
+        timeout: options.timeout ?? RpcEmitter.defaultTimeout,
+        signal: options.signal
+          ? AbortSignal.any([options.signal, controller.signal])
+          : controller.signal,
+        filter: (response: RpcResponse) => {
+          if (response.id !== id) {
+            return false;
+          }
+
+          // wait for the response of an emitter with a handler
+          if (!response.ok && response.code === "no-handler") {
+            unhandled = true;
+
+            return false;
+          }
+
+          return true;
+        },
+      });
+
+      // it is only awaited, if the request was sent
+      promise.catch(() => {});
+
+      // @ts-ignore <the detail of rpc.request is a RpcRequest>
+      this.emit("rpc.request", { id, method, detail });
+
+      const response = await promise.catch((error) => {
+        throw error instanceof TimeoutError
+          ? new RpcError(method, unhandled ? "no-handler" : "timeout", {
+            cause: error,
+          })
+          : error;
+      });
+
+      if (!response.ok) {
+        throw new RpcError(method, response.code, { cause: response.error });
+      }
+
+      return response.result as Methods[M]["response"];
+    } finally {
+      controller.abort();
+
+      this.__requests__.delete(id);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { EventEmitter } from "./EventEmitter.ts";
+import { assert, assertEquals, assertStrictEquals } from "@std/assert";
+
+type Events = {
+  "user.login": string;
+  "user.logout": string;
+  tick: number;
+};
+
+Deno.test("EventScope", async (ctx) => {
+  await ctx.step("dispose removes all listeners of the scope", () => {
+    const target = new EventEmitter<Events>();
+
+    const calls: string[] = [];
+
+    const scope = target.scope()
+      .on("tick", (tick) => calls.push(`tick ${tick}`))
+      .on(["user.login", "user.logout"], (user) => calls.push(user))
+      .on("user.*", (type, _detail) => calls.push(type))
+      .once("tick", () => calls.push("once"));
+
+    target.on("tick", () => calls.push("outside"));
+
+    target.emit("tick", 1);
+    target.emit("user.login", "a");
+
+    scope.dispose();
+
+    target.emit("tick", 2);
+    target.emit("user.logout", "a");
+
+    assertEquals(calls, [
+      "tick 1",
+      "once",
+      "outside",
+      "a",
+      "user.login",
+      "outside",
+    ]);
+    assert(scope.disposed);
+    assertEquals(target.getListeners("user.login").size, 0);
+  });
+
+  await ctx.step("using", () => {
+    const target = new EventEmitter<Events>();
+
+    let count = 0;
+
+    {
+      using scope = target.scope();
+
+      scope.on("tick", () => count++);
+
+      target.emit("tick", 1);
+    }
+
+    target.emit("tick", 2);
+
+    assertStrictEquals(count, 1);
+    assertEquals(target.getListeners("tick").size, 0);
+  });
+
+  await ctx.step("signal", () => {
+    const target = new EventEmitter<Events>();
+    const controller = new AbortController();
+
+    let count = 0;
+
+    const scope = target.scope({ signal: controller.signal });
+
+    scope.on("tick", () => count++);
+
+    controller.abort();
+
+    target.emit("tick", 1);
+
+    assert(scope.disposed);
+    assertStrictEquals(count, 0);
+
+    // listeners added to a disposed scope are ignored
+    scope.on("tick", () => count++);
+
+    target.emit("tick", 2);
+
+    assertStrictEquals(count, 0);
+    assert(target.scope({ signal: controller.signal }).disposed);
+  });
+
+  await ctx.step("dispose stops listening to the signal", () => {
+    const target = new EventEmitter<Events>();
+    const { signal } = new AbortController();
+
+    const removed: string[] = [];
+
+    const removeEventListener = signal.removeEventListener.bind(signal);
+
+    signal.removeEventListener = (
+      ...args: Parameters<typeof removeEventListener>
+    ) => {
+      removed.push(args[0]);
+
+      removeEventListener(...args);
+    };
+
+    target.scope({ signal }).dispose();
+
+    assertEquals(removed, ["abort"]);
+  });
+
+  await ctx.step("subscribe", () => {
+    const target = new EventEmitter<Events>();
+
+    const calls: number[] = [];
+
+    const scope = target.scope();
+
+    const unsubscribe = scope.subscribe("tick", (tick) => calls.push(tick));
+
+    target.emit("tick", 1);
+
+    unsubscribe();
+
+    target.emit("tick", 2);
+
+    {
+      using _subscription = scope.subscribe("tick", (tick) => calls.push(tick));
+
+      target.emit("tick", 3);
+    }
+
+    target.emit("tick", 4);
+
+    assertEquals(calls, [1, 3]);
+  });
+});
@@ -0,0 +1,247 @@
+import type {
+  CustomEventMap,
+  EventNamePattern,
+  EvName,
+  ListenerOptions,
+  PatternListener,
+  ReservedOrUserEventNames,
+  ReservedOrUserListenerOn,
+  ScopeOptions,
+  Unsubscribe,
+} from "./types.ts";
+import type { EventEmitter } from "./EventEmitter.ts";
+
+/**
+ * A group of listeners of an emitter, created with `EventEmitter.scope`. It has the same typed `on`, `once` and `subscribe` methods as the emitter
+ * and removes all listeners added with them at once, when it is disposed with `dispose`, `using` or the signal passed to `scope`.
+ * Listeners added to a disposed scope are ignored
+ *
+ * @typeParam UserEvents - the user-defined events of the emitter
+ * @typeParam ReservedEvents - the reserved events of the emitter
+ */
+export class EventScope<
+  UserEvents extends CustomEventMap,
+  ReservedEvents extends CustomEventMap,
+> implements Disposable {
+  /**
+   * @var __registrations__ the event names or patterns and the callbacks added to them with this scope
+   */
+  // deno-lint-ignore no-explicit-any
+  protected __registrations__: Set<[type: EvName, callback: any]> = new Set();
+
+  /**
+   * @var __disposed__ whether the scope was disposed
+   */
+  protected __disposed__ = false;
+
+  /**
+   * @var __removeAbortListener__ stops listening to the signal passed to the constructor, so that it doesn't keep the scope alive after it was disposed
+   */
+  protected __removeAbortListener__: (() => void) | undefined;
+
+  /**
+   * @param emitter the emitter the listeners are added to
+   * @param options Optional - a signal disposing the scope, see {@link ScopeOptions}
+   */
+  constructor(
+    protected emitter: EventEmitter<UserEvents, ReservedEvents>,
+    { signal }: ScopeOptions = {},
+  ) {
+    if (signal?.aborted) {
+      this.__disposed__ = true;
+    } else if (signal) {
+      const onAbort = () => this.dispose();
+
+      signal.addEventListener("abort", onAbort, { once: true });
+
+      this.__removeAbortListener__ = () =>
+        signal.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * whether the scope was disposed
+   */
+  get disposed(): boolean {
+    return this.__disposed__;
+  }
+
+  /**
+   * add listeners to the emitter and remember them
+   * @param method the method of the emitter adding the listeners
+   * @param types the event names or the pattern
+   * @param callback the callback
+   * @param options the options of the listener
+   * @returns the registrations, one per event name
+   */
+  protected register(
+    method: "on" | "once",
+    types: EvName | EvName[],
+    // deno-lint-ignore no-explicit-any
+    callback: any,
+    options?: boolean | ListenerOptions,
+  ): [type: EvName, callback: unknown][] {
+    if (this.__disposed__) {
+      return [];
+    }
+
+    // @ts-ignore <the types are checked by the overloads>
+    this.emitter[method](types, callback, options);
+
+    const registrations = (Array.isArray(types) ? types : [types]).map((
+      type,
+    ): [EvName, unknown] => [type, callback]);
+
+    registrations.forEach((registration) =>
+      this.__registrations__.add(registration)
+    );
+
+    return registrations;
+  }
+
+  /**
+   * add a callback to all events matching a pattern, e.g. `user.*` or `**`
+   * @param pattern the pattern, `*` matches exactly one segment of the event name, `**` any number of segments
+   * @param callback the callback to execute when a matching event is dispatched, it gets called with the name and the detail of the event
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  on<Pattern extends EventNamePattern>(
+    pattern: Pattern,
+    callback: PatternListener<ReservedEvents, UserEvents, Pattern>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  /**
+   * add a callback to an event
+   * @param type the event name the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  on<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    type: Ev,
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  /**
+   * add a callback to multiple events
+   * @param types an array of the event names the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  on<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    types: Ev[],
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  on(
+    types: EvName | EvName[],
+    // deno-lint-ignore no-explicit-any
+    callback: any,
+    options?: boolean | ListenerOptions,
+  ): this {
+    this.register("on", types, callback, options);
+
+    return this;
+  }
+
+  /**
+   * add a callback to all events matching a pattern only once. After the first matching event, the listener is removed.
+   * @param pattern the pattern, `*` matches exactly one segment of the event name, `**` any number of segments
+   * @param callback the callback to execute when a matching event is dispatched, it gets called with the name and the detail of the event
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  once<Pattern extends EventNamePattern>(
+    pattern: Pattern,
+    callback: PatternListener<ReservedEvents, UserEvents, Pattern>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  /**
+   * add a callback to an event only once. After that, the listener is removed.
+   * @param type the event name the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  once<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    type: Ev,
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  /**
+   * add a callback to multiple events only once. After that, the listener is removed.
+   * @param types an array of the event names the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   */
+  once<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    types: Ev[],
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
+  ): this;
+
+  once(
+    types: EvName | EvName[],
+    // deno-lint-ignore no-explicit-any
+    callback: any,
+    options?: boolean | ListenerOptions,
+  ): this {
+    this.register("once", types, callback, options);
+
+    return this;
+  }
+
+  /**
+   * add a callback to an event and return a function removing it, it is removed when the scope is disposed as well
+   * @param type the event name the callback should listen to
+   * @param callback the callback to execute when the event is dispatched
+   * @param options event options {@link EventTarget["addEventListener"]} and the priority of the callback
+   * @returns cleanup function, that can be used with `using` as well
+   */
+  subscribe<Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>>(
+    type: Ev,
+    callback: ReservedOrUserListenerOn<ReservedEvents, UserEvents, Ev>,
+    options?: boolean | ListenerOptions,
+  ): Unsubscribe {
+    const registrations = this.register("on", type, callback, options);
+
+    const unsubscribe = () => {
+      registrations.forEach((registration) => this.remove(registration));
+    };
+
+    return Object.assign(unsubscribe, { [Symbol.dispose]: unsubscribe });
+  }
+
+  /**
+   * remove a listener added with this scope
+   * @param registration the event name and the callback
+   */
+  protected remove(registration: [type: EvName, callback: unknown]): void {
+    if (!this.__registrations__.delete(registration)) {
+      return;
+    }
+
+    const [type, callback] = registration;
+
+    // @ts-ignore <the callback was added to the event>
+    this.emitter.off(type, callback);
+  }
+
+  /**
+   * remove all listeners added with this scope. Listeners added to it afterwards are ignored
+   */
+  dispose(): void {
+    this.__disposed__ = true;
+
+    this.__removeAbortListener__?.();
+    this.__removeAbortListener__ = undefined;
+
+    this.__registrations__.forEach((registration) => this.remove(registration));
+  }
+
+  [Symbol.dispose](): void {
+    this.dispose();
+  }
+}
@@ -0,0 +1,125 @@
+import { EventEmitter } from "./EventEmitter.ts";
+import { assertEquals, assertThrows } from "@std/assert";
+
+type Events = {
+  input: string;
+  count: number;
+  search: string;
+  batch: number[];
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+Deno.test("EventStream", async (ctx) => {
+  await ctx.step("map and filter", () => {
+    const target = new EventEmitter<Events>();
+
+    const values: number[] = [];
+
+    const unsubscribe = target.stream("input")
+      .map((input) => input.length)
+      .filter((length) => length > 1)
+      .on((length) => values.push(length));
+
+    target.emit("input", "a");
+    target.emit("input", "abc");
+
+    unsubscribe();
+
+    target.emit("input", "abcd");
+
+    assertEquals(values, [3]);
+    assertEquals(target.getListeners("input").size, 0);
+  });
+
+  await ctx.step("debounce", async () => {
+    const target = new EventEmitter<Events>();
+
+    const values: string[] = [];
+
+    const unsubscribe = target.stream("input")
+      .debounce(20)
+      .on((input) => values.push(input));
+
+    target.emit("input", "a");
+    target.emit("input", "ab");
+
+    await wait(40);
+
+    target.emit("input", "abc");
+
+    // the pending value is dropped
+    unsubscribe();
+
+    await wait(40);
+
+    assertEquals(values, ["ab"]);
+  });
+
+  await ctx.step("throttle", async () => {
+    const target = new EventEmitter<Events>();
+
+    const values: number[] = [];
+
+    const unsubscribe = target.stream("count")
+      .throttle(20)
+      .on((count) => values.push(count));
+
+    target.emit("count", 1);
+    target.emit("count", 2);
+
+    await wait(40);
+
+    target.emit("count", 3);
+
+    unsubscribe();
+
+    assertEquals(values, [1, 3]);
+  });
+
+  await ctx.step("buffer", () => {
+    const target = new EventEmitter<Events>();
+
+    const values: number[][] = [];
+
+    const unsubscribe = target.stream("count")
+      .buffer(2)
+      .on((counts) => values.push(counts));
+
+    for (let i = 1; i <= 5; i++) {
+      target.emit("count", i);
+    }
+
+    unsubscribe();
+
+    assertEquals(values, [[1, 2], [3, 4]]);
+    assertThrows(() => target.stream("count").buffer(0), RangeError);
+  });
+
+  await ctx.step("to", () => {
+    const source = new EventEmitter<Events>();
+    const other = new EventEmitter<Events>();
+
+    const values: unknown[] = [];
+
+    other.on("search", (query) => values.push(query));
+    other.on("batch", (batch) => values.push(batch));
+
+    const unsubscribe = [
+      source.stream("input").map((input) => input.trim()).to(other, "search"),
+      source.stream("count").buffer(2).to(other, "batch"),
+    ];
+
+    // @ts-expect-error <the detail of search is a string>
+    source.stream("count").to(other, "search")();
+
+    source.emit("input", " deno ");
+    source.emit("count", 1);
+    source.emit("count", 2);
+
+    unsubscribe.forEach((unsubscribe) => unsubscribe());
+
+    assertEquals(values, ["deno", [1, 2]]);
+    assertEquals(source.getListeners("count").size, 0);
+  });
+});
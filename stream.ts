@@ -0,0 +1,180 @@
+import type {
+  CustomEventMap,
+  EventNamesAccepting,
+  Fn,
+  StreamSource,
+} from "./types.ts";
+import type { EventEmitter } from "./EventEmitter.ts";
+
+/**
+ * A stream of the details of an event, created with `EventEmitter.stream`.
+ * Operators like `map` or `debounce` return a new stream, nothing is subscribed until `on` or `to` is called.
+ * The function they return unsubscribes the whole chain, including the listener on the emitter and pending timers
+ *
+ * @typeParam T - the type of the values
+ */
+export class EventStream<T> {
+  /**
+   * @param source subscribes to the values of the stream
+   */
+  constructor(protected source: StreamSource<T>) {}
+
+  /**
+   * create a stream from this stream
+   * @param operator gets the function passing values to the new stream and returns the function receiving the values of this stream
+   * and optionally a teardown function, e.g. to clear timers
+   */
+  protected derive<R>(
+    operator: (
+      next: Fn<[value: R], void>,
+    ) => { next: Fn<[value: T], void>; teardown?: Fn<never[], void> },
+  ): EventStream<R> {
+    return new EventStream((next) => {
+      const { next: receive, teardown } = operator(next);
+
+      const unsubscribe = this.source(receive);
+
+      return () => {
+        unsubscribe();
+
+        teardown?.();
+      };
+    });
+  }
+
+  /**
+   * convert every value
+   * @param fn gets the value and returns the new one
+   */
+  map<R>(fn: Fn<[value: T], R>): EventStream<R> {
+    return this.derive((next) => ({ next: (value) => next(fn(value)) }));
+  }
+
+  /**
+   * only pass the values the type guard returns true for
+   * @param predicate the type guard
+   */
+  filter<S extends T>(predicate: (value: T) => value is S): EventStream<S>;
+
+  /**
+   * only pass the values the predicate returns true for
+   * @param predicate the predicate
+   */
+  filter(predicate: Fn<[value: T], boolean>): EventStream<T>;
+
+  filter(predicate: Fn<[value: T], boolean>): EventStream<T> {
+    return this.derive((next) => ({
+      next: (value) => {
+        if (predicate(value)) {
+          next(value);
+        }
+      },
+    }));
+  }
+
+  /**
+   * only pass a value after no other value was received for a specific amount of milliseconds
+   * @param ms the milliseconds to wait
+   */
+  debounce(ms: number): EventStream<T> {
+    return this.derive((next) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+      return {
+        next: (value) => {
+          clearTimeout(timeoutId);
+
+          timeoutId = setTimeout(() => {
+            try {
+              next(value);
+            } catch (error) {
+              reportError(error);
+            }
+          }, ms);
+        },
+        teardown: () => clearTimeout(timeoutId),
+      };
+    });
+  }
+
+  /**
+   * pass a value and ignore the following values for a specific amount of milliseconds
+   * @param ms the milliseconds to ignore values
+   */
+  throttle(ms: number): EventStream<T> {
+    return this.derive((next) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+      return {
+        next: (value) => {
+          if (timeoutId !== undefined) {
+            return;
+          }
+
+          timeoutId = setTimeout(() => {
+            timeoutId = undefined;
+          }, ms);
+
+          next(value);
+        },
+        teardown: () => clearTimeout(timeoutId),
+      };
+    });
+  }
+
+  /**
+   * collect values and pass them as array, when a specific number was collected
+   * @param size the number of values to collect
+   */
+  buffer(size: number): EventStream<T[]> {
+    if (!(size >= 1)) {
+      throw new RangeError(`size must be at least 1, received ${size}`);
+    }
+
+    return this.derive((next) => {
+      let buffer: T[] = [];
+
+      return {
+        next: (value) => {
+          buffer.push(value);
+
+          if (buffer.length >= size) {
+            const values = buffer;
+
+            buffer = [];
+
+            next(values);
+          }
+        },
+      };
+    });
+  }
+
+  /**
+   * subscribe to the stream
+   * @param callback gets called with every value
+   * @returns a function that unsubscribes
+   */
+  on(callback: Fn<[value: T], void>): Fn<never[], void> {
+    return this.source(callback);
+  }
+
+  /**
+   * emit the values as event of another emitter
+   * @param target the emitter
+   * @param type the event, its detail must accept the values
+   * @returns a function that unsubscribes
+   */
+  to<
+    TargetEvents extends CustomEventMap,
+    TargetReservedEvents extends CustomEventMap,
+  >(
+    target: EventEmitter<TargetEvents, TargetReservedEvents>,
+    type: EventNamesAccepting<TargetEvents, T>,
+  ): Fn<never[], void> {
+    return this.source((value) => {
+      // @ts-ignore <the detail of the event accepts the value>
+      target.emit(type, value);
+    });
+  }
+}
@@ -0,0 +1,146 @@
+import { defineEvents, StrictEmitter } from "./strict.ts";
+import { Codec } from "./codec.ts";
+import { assertEquals, assertThrows } from "@std/assert";
+
+type Events = {
+  message: string;
+  "user.login": string;
+};
+
+type Reserved = {
+  connected: boolean;
+};
+
+class Connection extends StrictEmitter<Events, Reserved> {
+  constructor() {
+    super({
+      user: { message: true, "user.login": true },
+      reserved: { connected: true },
+    });
+  }
+
+  connect() {
+    return this.emitReserved("connected", true);
+  }
+
+  send(type: string, detail: unknown) {
+    return this.emitUntyped(type, detail);
+  }
+}
+
+Deno.test("StrictEmitter", async (ctx) => {
+  await ctx.step("declared events work like in every emitter", () => {
+    const target = defineEvents<Events>({
+      user: { message: true, "user.login": true },
+    });
+
+    const calls: string[] = [];
+
+    target.on("message", (detail) => calls.push(detail));
+    target.on("user.*", (type) => calls.push(type));
+    target.on("error", () => {});
+
+    target.emit("message", "a");
+    target.emit("user.login", "b");
+
+    assertEquals(calls, ["a", "user.login"]);
+  });
+
+  await ctx.step("throws on unknown events", () => {
+    const target = defineEvents<Events>({
+      user: { message: true, "user.login": true },
+    });
+
+    assertThrows(
+      // @ts-expect-error <mesage isn't declared>
+      () => target.emit("mesage", "a"),
+      TypeError,
+      'Unknown event "mesage"',
+    );
+    assertThrows(
+      // @ts-expect-error <mesage isn't declared>
+      () => target.on("mesage", () => {}),
+      TypeError,
+      'Unknown event "mesage"',
+    );
+    assertThrows(
+      () => target.on("admin.*", () => {}),
+      TypeError,
+      `The pattern "admin.*" doesn't match any event`,
+    );
+    assertThrows(
+      () => new Connection().send("mesage", "a"),
+      TypeError,
+      'Unknown event "mesage"',
+    );
+    assertEquals(target.getListeners().size, 0);
+  });
+
+  await ctx.step(
+    "reserved events can only be emitted with emitReserved",
+    () => {
+      const target = new Connection();
+
+      const calls: boolean[] = [];
+
+      target.on("connected", (detail) => calls.push(detail));
+
+      target.connect();
+
+      assertThrows(
+        () => target.send("connected", false),
+        TypeError,
+        "emitReserved",
+      );
+      assertThrows(
+        // @ts-expect-error <connected is reserved>
+        () => target.emit("connected", false),
+        TypeError,
+        "emitReserved",
+      );
+      assertThrows(
+        () =>
+          target.emitEncoded(
+            new Codec<Reserved>().stringify({
+              type: "connected",
+              detail: false,
+            }),
+          ),
+        TypeError,
+        'The reserved event "connected"',
+      );
+      assertEquals(calls, [true]);
+    },
+  );
+
+  await ctx.step("eventNames", () => {
+    assertEquals(new Connection().eventNames(), [
+      "message",
+      "user.login",
+      "error",
+      "maxListenersExceeded",
+      "validationFailed",
+      "connected",
+    ]);
+  });
+
+  await ctx.step("an event can't be user-defined and reserved", () => {
+    assertThrows(
+      () =>
+        defineEvents<Events, { message: string }>({
+          user: { message: true, "user.login": true },
+          reserved: { message: true },
+        }),
+      TypeError,
+    );
+  });
+
+  await ctx.step("all events have to be declared", () => {
+    // @ts-expect-error <user.login isn't declared>
+    defineEvents<Events>({ user: { message: true } });
+    // @ts-expect-error <the reserved events aren't declared>
+    new StrictEmitter<Events, Reserved>({
+      user: { message: true, "user.login": true },
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import type {
+  CustomEventMap,
+  EmitContext,
+  EventDeclarations,
+  EventEmitterOptions,
+  EvName,
+  ListenerOptions,
+  ReservedOrUserEventNames,
+  ReservedOrUserListenerAddEventListener,
+  ReservedOrUserListenerOnOrAddEventListener,
+} from "./types.ts";
+import { builtInReservedEvents, EventEmitter } from "./EventEmitter.ts";
+import { isPattern, matchesPattern } from "./pattern.ts";
+
+/**
+ * An `EventEmitter` that knows its events at runtime, created with `defineEvents`.
+ * Emitting or listening to an event that wasn't declared throws, so that typos in untyped code don't go unnoticed,
+ * and reserved events can only be emitted with `emitReserved`
+ *
+ * @typeParam UserEvents - `CustomEventMap` of user-defined events
+ * @typeParam ReservedEvents - `CustomEventMap` of reserved events
+ */
+export class StrictEmitter<
+  UserEvents extends CustomEventMap = Record<never, never>,
+  ReservedEvents extends CustomEventMap = Record<never, never>,
+> extends EventEmitter<UserEvents, ReservedEvents> {
+  /**
+   * @var __userEvents__ the declared user-defined events
+   */
+  protected __userEvents__: Set<EvName>;
+
+  /**
+   * @var __reservedEvents__ the declared reserved events, including the built-in ones
+   */
+  protected __reservedEvents__: Set<EvName>;
+
+  /**
+   * @param events the names of the user-defined and the reserved events
+   * @param options Optional - options for the emitter
+   * @throws a `TypeError`, if an event is declared as user-defined and as reserved event
+   */
+  constructor(
+    events: EventDeclarations<UserEvents, ReservedEvents>,
+    options: EventEmitterOptions<UserEvents> = {},
+  ) {
+    super(options);
+
+    this.__userEvents__ = new Set(Reflect.ownKeys(events.user));
+    this.__reservedEvents__ = new Set([
+      ...Reflect.ownKeys(builtInReservedEvents),
+      ...Reflect.ownKeys(events.reserved ?? {}),
+    ]);
+
+    const both = [...this.__userEvents__].find((type) =>
+      this.__reservedEvents__.has(type)
+    );
+
+    if (both !== undefined) {
+      throw new TypeError(
+        `"${String(both)}" can't be a user-defined and a reserved event`,
+      );
+    }
+  }
+
+  /**
+   * get the names of the declared events
+   * @returns the user-defined events, followed by the reserved events
+   */
+  eventNames(): ReservedOrUserEventNames<ReservedEvents, UserEvents>[] {
+    return [
+      ...this.__userEvents__,
+      ...this.__reservedEvents__,
+    ] as ReservedOrUserEventNames<ReservedEvents, UserEvents>[];
+  }
+
+  /**
+   * check whether an event was declared, before it is emitted
+   * @param type the event name
+   * @param reserved whether the event is emitted with `emitReserved`
+   * @throws a `TypeError`, if the event wasn't declared or a reserved event isn't emitted with `emitReserved`
+   */
+  protected checkEmitted(type: EvName, reserved: boolean): void {
+    if (reserved && !this.__reservedEvents__.has(type)) {
+      throw new TypeError(`Unknown reserved event "${String(type)}"`);
+    } else if (!reserved && this.__reservedEvents__.has(type)) {
+      throw new TypeError(
+        `"${
+          String(type)
+        }" is a reserved event, it can only be emitted with emitReserved`,
+      );
+    } else if (!reserved && !this.__userEvents__.has(type)) {
+      throw new TypeError(`Unknown event "${String(type)}"`);
+    }
+  }
+
+  /**
+   * check whether an event was declared, before a listener is added to it
+   * @param type the event name or a pattern, which has to match at least one declared event
+   * @throws a `TypeError`, if the event wasn't declared
+   */
+  protected checkListened(type: EvName): void {
+    const names = [...this.__userEvents__, ...this.__reservedEvents__];
+
+    const known = isPattern(type)
+      ? names.some((name) => matchesPattern(type, name))
+      : names.includes(type);
+
+    if (!known) {
+      throw new TypeError(
+        isPattern(type)
+          ? `The pattern "${String(type)}" doesn't match any event`
+          : `Unknown event "${String(type)}"`,
+      );
+    }
+  }
+
+  protected override isReserved(type: EvName): boolean {
+    return this.__reservedEvents__.has(type);
+  }
+
+  protected override applyMiddleware(
+    type: EvName,
+    detail: unknown,
+    reserved: boolean,
+    dispatch: (context: EmitContext<ReservedEvents, UserEvents>) => void,
+  ): void {
+    this.checkEmitted(type, reserved);
+
+    super.applyMiddleware(type, detail, reserved, dispatch);
+  }
+
+  protected override addListener<
+    Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  >(
+    type: Ev,
+    callback: ReservedOrUserListenerOnOrAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >,
+    listener: ReservedOrUserListenerAddEventListener<
+      ReservedEvents,
+      UserEvents,
+      Ev
+    >,
+    options?: boolean | ListenerOptions,
+    prepend?: boolean,
+  ): void {
+    this.checkListened(type);
+
+    super.addListener(type, callback, listener, options, prepend);
+  }
+}
+
+/**
+ * create an emitter, that throws when an event is emitted or listened to, which isn't declared in `events`
+ * @param events the names of the user-defined and the reserved events
+ * @param options Optional - options for the emitter
+ * @typeParam UserEvents - `CustomEventMap` of user-defined events
+ * @typeParam ReservedEvents - `CustomEventMap` of reserved events
+ */
+export function defineEvents<
+  UserEvents extends CustomEventMap = Record<never, never>,
+  ReservedEvents extends CustomEventMap = Record<never, never>,
+>(
+  events: EventDeclarations<UserEvents, ReservedEvents>,
+  options?: EventEmitterOptions<UserEvents>,
+): StrictEmitter<UserEvents, ReservedEvents> {
+  return new StrictEmitter(events, options);
+}
@@ -0,0 +1,134 @@
+import { EventEmitter } from "./EventEmitter.ts";
+import {
+  assertEmitted,
+  assertEmittedInOrder,
+  assertNoListeners,
+  assertNotEmitted,
+  expectEvent,
+  spyOnEmitter,
+} from "./testing.ts";
+import {
+  assertEquals,
+  AssertionError,
+  assertRejects,
+  assertThrows,
+} from "@std/assert";
+
+type Events = {
+  login: { user: string };
+  logout: undefined;
+  tick: number;
+};
+
+Deno.test("testing", async (ctx) => {
+  await ctx.step("spyOnEmitter", () => {
+    const target = new EventEmitter<Events>();
+
+    const spy = spyOnEmitter(target);
+
+    target.emit("login", { user: "a" });
+    target.emit("logout");
+
+    assertEquals(spy.events, [
+      { type: "login", detail: { user: "a" } },
+      { type: "logout", detail: undefined },
+    ]);
+
+    spy.restore();
+
+    target.emit("tick", 1);
+
+    assertEquals(spy.events.length, 2);
+    assertEquals(target.getAnyListeners().size, 0);
+  });
+
+  await ctx.step("assertEmitted and assertNotEmitted", () => {
+    const target = new EventEmitter<Events>();
+
+    const spy = spyOnEmitter(target);
+
+    target.emit("login", { user: "a" });
+
+    assertEmitted(spy, "login");
+    assertEmitted(spy, "login", { user: "a" });
+    assertNotEmitted(spy, "logout");
+    assertNotEmitted(spy, "login", { user: "b" });
+
+    const error = assertThrows(
+      () => assertEmitted(spy, "login", { user: "b" }),
+      AssertionError,
+    );
+
+    assertEquals(
+      error.message,
+      `Expected "login" to be emitted with { user: "b" }, emitted: "login" { user: "a" }`,
+    );
+
+    assertThrows(() => assertNotEmitted(spy, "login"), AssertionError);
+  });
+
+  await ctx.step("assertEmittedInOrder", () => {
+    const target = new EventEmitter<Events>();
+
+    const spy = spyOnEmitter(target);
+
+    target.emit("login", { user: "a" });
+    target.emit("tick", 1);
+    target.emit("logout");
+
+    assertEmittedInOrder(spy, ["login", "logout"]);
+    assertEmittedInOrder(spy, ["login", "tick", "logout"]);
+
+    assertThrows(
+      () => assertEmittedInOrder(spy, ["logout", "login"]),
+      AssertionError,
+    );
+  });
+
+  await ctx.step("expectEvent", async () => {
+    const target = new EventEmitter<Events>();
+
+    setTimeout(() => {
+      target.emit("tick", 1);
+      target.emit("tick", 2);
+    }, 0);
+
+    assertEquals(
+      await expectEvent(target, "tick", { filter: (tick) => tick > 1 }),
+      2,
+    );
+
+    await assertRejects(
+      () => expectEvent(target, "logout", { timeout: 10 }),
+      AssertionError,
+      `Expected "logout" to be emitted within 10ms`,
+    );
+  });
+
+  await ctx.step("assertNoListeners", () => {
+    const target = new EventEmitter<Events>();
+
+    const listener = () => {};
+
+    target.on("tick", listener);
+
+    assertNoListeners(target, "login");
+
+    const error = assertThrows(
+      () => assertNoListeners(target),
+      AssertionError,
+    );
+
+    assertEquals(error.message, `Expected no listeners, found 1 of "tick"`);
+
+    target.off("tick", listener);
+    target.onAny((_type, _detail) => {});
+
+    assertNoListeners(target, "tick");
+    assertThrows(() => assertNoListeners(target), AssertionError);
+
+    target.offAny();
+
+    assertNoListeners(target);
+  });
+});
@@ -0,0 +1,200 @@
+import { AssertionError, equal } from "@std/assert";
+import type {
+  CustomEventMap,
+  EmittedEvent,
+  EmitterSpy,
+  EventNames,
+  EvName,
+  ExpectEventOptions,
+  ReservedOrUserEventDetail,
+  ReservedOrUserEventNames,
+} from "./types.ts";
+import type { EventEmitter } from "./EventEmitter.ts";
+import { TimeoutError } from "./errors.ts";
+
+function format(events: EmittedEvent<CustomEventMap>[]): string {
+  return events.length > 0
+    ? events.map(({ type, detail }) =>
+      `"${String(type)}" ${Deno.inspect(detail)}`
+    )
+      .join(", ")
+    : "none";
+}
+
+function matches(
+  event: EmittedEvent<CustomEventMap>,
+  type: EvName,
+  detail: [detail?: unknown],
+): boolean {
+  return event.type === type &&
+    (detail.length === 0 || equal(event.detail, detail[0]));
+}
+
+/**
+ * record all events dispatched by an emitter, including reserved events, with an any-listener
+ * @param emitter the emitter to spy on
+ * @returns the spy, pass it to `assertEmitted`, `assertNotEmitted` or `assertEmittedInOrder`
+ */
+export function spyOnEmitter<
+  UserEvents extends CustomEventMap,
+  ReservedEvents extends CustomEventMap,
+>(
+  emitter: EventEmitter<UserEvents, ReservedEvents>,
+): EmitterSpy<UserEvents & ReservedEvents> {
+  const events: EmittedEvent<UserEvents & ReservedEvents>[] = [];
+
+  const listener = (type: string, detail: unknown) => {
+    events.push({ type, detail } as EmittedEvent<UserEvents & ReservedEvents>);
+  };
+
+  // @ts-ignore <the listener accepts all events>
+  emitter.onAny(listener);
+
+  return {
+    events,
+    restore() {
+      // @ts-ignore <the listener accepts all events>
+      emitter.offAny(listener);
+    },
+  };
+}
+
+/**
+ * assert that an event was dispatched
+ * @param spy the spy returned by `spyOnEmitter`
+ * @param type the event name
+ * @param param2 Optional - the detail the event was dispatched with, compared deeply
+ * @throws an `AssertionError`, if the spy didn't record the event
+ */
+export function assertEmitted<
+  Events extends CustomEventMap,
+  Ev extends EventNames<Events>,
+>(
+  spy: EmitterSpy<Events>,
+  type: Ev,
+  ...detail: [detail?: Events[Ev]]
+): void {
+  if (!spy.events.some((event) => matches(event, type, detail))) {
+    throw new AssertionError(
+      `Expected "${String(type)}" to be emitted${
+        detail.length > 0 ? ` with ${Deno.inspect(detail[0])}` : ""
+      }, emitted: ${format(spy.events)}`,
+    );
+  }
+}
+
+/**
+ * assert that an event wasn't dispatched
+ * @param spy the spy returned by `spyOnEmitter`
+ * @param type the event name
+ * @param param2 Optional - only fail, if the event was dispatched with this detail, compared deeply
+ * @throws an `AssertionError`, if the spy recorded the event
+ */
+export function assertNotEmitted<
+  Events extends CustomEventMap,
+  Ev extends EventNames<Events>,
+>(
+  spy: EmitterSpy<Events>,
+  type: Ev,
+  ...detail: [detail?: Events[Ev]]
+): void {
+  if (spy.events.some((event) => matches(event, type, detail))) {
+    throw new AssertionError(
+      `Expected "${String(type)}" not to be emitted${
+        detail.length > 0 ? ` with ${Deno.inspect(detail[0])}` : ""
+      }, emitted: ${format(spy.events)}`,
+    );
+  }
+}
+
+/**
+ * assert that events were dispatched in the given order. Other events can be dispatched between them
+ * @param spy the spy returned by `spyOnEmitter`
+ * @param types the event names in the expected order
+ * @throws an `AssertionError`, if the spy didn't record the events in this order
+ */
+export function assertEmittedInOrder<Events extends CustomEventMap>(
+  spy: EmitterSpy<Events>,
+  types: EventNames<Events>[],
+): void {
+  let index = 0;
+
+  for (const { type } of spy.events) {
+    if (type === types[index]) {
+      index++;
+    }
+  }
+
+  if (index < types.length) {
+    throw new AssertionError(
+      `Expected ${
+        types.map((type) => `"${String(type)}"`).join(", ")
+      } to be emitted in this order, emitted: ${format(spy.events)}`,
+    );
+  }
+}
+
+/**
+ * wait for an event to be dispatched
+ * @param emitter the emitter
+ * @param type the event name
+ * @param options Optional - the timeout and a filter, see {@link ExpectEventOptions}
+ * @returns a Promise that resolves with the detail of the event
+ * @throws an `AssertionError`, if the event wasn't dispatched in time
+ */
+export async function expectEvent<
+  UserEvents extends CustomEventMap,
+  ReservedEvents extends CustomEventMap,
+  Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+>(
+  emitter: EventEmitter<UserEvents, ReservedEvents>,
+  type: Ev,
+  { timeout = 1000, filter }: ExpectEventOptions<
+    ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>
+  > = {},
+): Promise<ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>> {
+  try {
+    return await emitter.pull(type, { timeout, filter });
+  } catch (error) {
+    if (error instanceof TimeoutError) {
+      throw new AssertionError(
+        `Expected "${String(type)}" to be emitted within ${timeout}ms`,
+      );
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * assert that an emitter has no listeners left, e.g. after a component using it was disposed
+ * @param emitter the emitter
+ * @param type Optional - only check the listeners of this event (including the ones added with a matching pattern),
+ * otherwise all listeners and the any-listeners are checked
+ * @throws an `AssertionError`, if there are listeners
+ */
+export function assertNoListeners<
+  UserEvents extends CustomEventMap,
+  ReservedEvents extends CustomEventMap,
+>(
+  emitter: EventEmitter<UserEvents, ReservedEvents>,
+  type?: ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+): void {
+  const leftovers = type === undefined
+    ? [...emitter.getListeners()]
+      .filter(([, listeners]) => listeners.size > 0)
+      .map(([type, listeners]) => `${listeners.size} of "${String(type)}"`)
+    : emitter.getListeners(type).size > 0
+    ? [`${emitter.getListeners(type).size} of "${String(type)}"`]
+    : [];
+
+  if (type === undefined && emitter.getAnyListeners().size > 0) {
+    leftovers.push(`${emitter.getAnyListeners().size} any-listener(s)`);
+  }
+
+  if (leftovers.length > 0) {
+    throw new AssertionError(
+      `Expected no listeners, found ${leftovers.join(", ")}`,
+    );
+  }
+}
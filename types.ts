@@ -1,4 +1,10 @@
-export type EvName = string;
+import type { Codec } from "./codec.ts";
+
+/**
+ * An event name: a string, which can be declared as template literal type in a `CustomEventMap`, e.g. `` `row:${number}:changed` ``,
+ * or a symbol, e.g. for private events
+ */
+export type EvName = string | symbol;
 
 export type Fn<
   Params extends readonly unknown[] = readonly unknown[],
@@ -21,10 +27,13 @@ export interface TypedEventBroadcaster<EmitEvents extends CustomEventMap> {
   ): this;
 }
 
+/**
+ * The `type` of an event with a symbol name is a string, see `toEventType`
+ */
 export type TypedCustomEvent<
   Type extends EvName,
   Detail = unknown,
-> = CustomEvent<Detail> & { type: Type };
+> = CustomEvent<Detail> & { type: Type extends string ? Type : string };
 
 export type EventTargetCompatible = Extract<
   Parameters<EventTarget["addEventListener"]>[1],
@@ -54,15 +63,346 @@ export type CustomEventDetailParameter<
   : T[K] extends never ? []
   : [detail: T[K]];
 
+/**
+ * Same as {@link CustomEventDetailParameter}, but followed by an optional
+ * options object, e.g. for `emitAsync`.
+ */
+export type CustomEventDetailAndOptionsParameters<
+  T extends CustomEventMap,
+  K extends keyof T,
+  Options,
+> = unknown extends T[K] ? [detail?: unknown, options?: Options]
+  : undefined extends T[K] ? [detail?: T[K], options?: Options]
+  : T[K] extends never ? [detail?: undefined, options?: Options]
+  : [detail: T[K], options?: Options];
+
 export type CustomEventCallbackAddEventListener<
   Ev extends EvName = EvName,
   Detail = unknown,
 > = Fn<[event: TypedCustomEvent<Ev, Detail>], void>;
 
+/**
+ * Passed to listeners added with `on` as second argument, to control the event, although they don't get it
+ */
+export interface EventControl {
+  /**
+   * whether the event can be canceled, which is the case for events emitted with `emitCancelable`
+   */
+  readonly cancelable: boolean;
+  /**
+   * whether `preventDefault` was called for a cancelable event
+   */
+  readonly defaultPrevented: boolean;
+  /**
+   * the emitter the event was emitted on, it differs from {@link currentTarget}, when the event is bubbling or captured
+   */
+  readonly target: EventTarget | null;
+  /**
+   * the emitter the listener was added to
+   */
+  readonly currentTarget: EventTarget | null;
+  /**
+   * the phase of the event: `Event.CAPTURING_PHASE`, `Event.AT_TARGET` or `Event.BUBBLING_PHASE`
+   */
+  readonly eventPhase: number;
+  /**
+   * cancel the event, if it is cancelable
+   */
+  preventDefault(): void;
+  /**
+   * don't pass the event on to the next emitter, the remaining listeners of the current emitter are called
+   */
+  stopPropagation(): void;
+  /**
+   * don't call the remaining listeners of the event
+   */
+  stopImmediatePropagation(): void;
+}
+
 export type CustomEventCallbackOn<
   Ev extends EvName = EvName,
   Detail = unknown,
-> = Fn<[event: TypedCustomEvent<Ev, Detail>["detail"]], void>;
+> = Fn<
+  [event: TypedCustomEvent<Ev, Detail>["detail"], control: EventControl],
+  void
+>;
+
+/**
+ * Options for adding a listener, {@link AddEventListenerOptions} and the
+ * priority of the listener.
+ */
+export interface ListenerOptions extends AddEventListenerOptions {
+  /**
+   * Listeners with a higher priority are called first, listeners with the
+   * same priority are called in the order they were added. Listeners of
+   * patterns are called after the listeners of the event with the same priority.
+   * @default 0
+   */
+  priority?: number;
+  /**
+   * The name of the listener in {@link TraceEntry | trace entries}, instead of the name of the function
+   */
+  label?: string;
+}
+
+/**
+ * What happens when a listener throws or returns a rejected promise:
+ * - `report`: the error is reported as uncaught error (`reportError`), the other listeners are still called
+ * - `rethrow-after-all`: after all listeners were called, the errors are thrown as `AggregateError` by the emitting method.
+ *   Rejected promises are reported, as they settle after the event was dispatched
+ * - `emit-error`: the error is emitted as reserved `error` event. If there is no listener for it, the error is thrown
+ *   after all listeners were called (or reported, if it is the reason of a rejected promise)
+ */
+export type ErrorPolicy = "report" | "rethrow-after-all" | "emit-error";
+
+/**
+ * An issue found by a validator
+ */
+export interface ValidationIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * The result of the `validate` function of a {@link StandardSchema}
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<ValidationIssue> };
+
+/**
+ * A schema implementing the Standard Schema interface (https://standardschema.dev), like the schemas of zod, valibot or arktype
+ */
+export interface StandardSchema<Output = unknown> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) =>
+      | StandardSchemaResult<Output>
+      | Promise<StandardSchemaResult<Output>>;
+  };
+}
+
+/**
+ * Validates the detail of an event at runtime. It can be a type guard, a predicate or a {@link StandardSchema}
+ */
+export type Validator<Detail = unknown> =
+  | ((detail: unknown) => detail is Detail)
+  | Fn<[detail: unknown], boolean>
+  | StandardSchema<Detail>;
+
+/**
+ * The validators of the events, the type of the events is inferred from them
+ */
+export type Validators<Events extends CustomEventMap> = {
+  [Ev in keyof Events]?: Validator<Events[Ev]>;
+};
+
+/**
+ * What happens, when the detail of an emitted event is invalid:
+ * - `throw`: a `ValidationError` is thrown by the emitting method
+ * - `emit`: the reserved `validationFailed` event is emitted instead. If there is no listener for it, a `ValidationError` is thrown
+ *
+ * In both cases, the event isn't dispatched
+ */
+export type ValidationPolicy = "throw" | "emit";
+
+export interface EventEmitterOptions<
+  UserEvents extends CustomEventMap = CustomEventMap,
+> {
+  /**
+   * @default "report"
+   */
+  errorPolicy?: ErrorPolicy;
+  /**
+   * validators for the details of the events, which are checked before the events are dispatched
+   */
+  validators?: Validators<UserEvents>;
+  /**
+   * @default "throw"
+   */
+  onInvalid?: ValidationPolicy;
+  /**
+   * the number of details to keep per event, which are replayed to listeners added later.
+   * An event with a replay of `1` is sticky: every new listener is called with its last detail
+   */
+  replay?: { [Ev in NoInfer<EventNames<UserEvents>>]?: number };
+  /**
+   * the codec `emitEncoded` decodes the events with
+   * @default new Codec()
+   */
+  codec?: Codec<NoInfer<UserEvents>>;
+  /**
+   * The maximum number of listeners per event, before a warning is emitted. `0` and `Infinity` disable the warning
+   * @default EventEmitter.defaultMaxListeners
+   */
+  maxListeners?: number;
+  /**
+   * Called with the warning, when an event has more listeners than allowed
+   * @default console.warn
+   */
+  onWarning?: Fn<[message: string, detail: MaxListenersExceededDetail], void>;
+  /**
+   * Called for every call of a listener with a {@link TraceEntry}, for asynchronous listeners when the returned promise settled
+   */
+  trace?: Fn<[entry: TraceEntry], void>;
+  /**
+   * Add a `performance.measure` for every call of a listener, named `"<event> <listener>"`, with the {@link TraceEntry} as `detail`.
+   * It doesn't contain the `error` and the `type` is a string, because the `detail` has to be cloneable
+   * @default false
+   */
+  performance?: boolean;
+}
+
+/**
+ * A record of a call of a listener, see {@link EventEmitterOptions.trace}
+ */
+export interface TraceEntry {
+  /**
+   * identifies the dispatch of the event, it is the same for all listeners called for one event
+   */
+  dispatch: number;
+  /**
+   * the event name
+   */
+  type: EvName;
+  /**
+   * the size of the event encoded by the `Codec` of the emitter in bytes, undefined, if the detail can't be encoded
+   */
+  size: number | undefined;
+  /**
+   * the `label` option the listener was added with, or the name of the function
+   */
+  listener: string;
+  /**
+   * when the listener was called, as `performance.now()` timestamp
+   */
+  start: number;
+  /**
+   * how long the listener took in milliseconds, for asynchronous listeners until the returned promise settled
+   */
+  duration: number;
+  /**
+   * whether the listener returned a promise
+   */
+  async: boolean;
+  /**
+   * the error the listener threw or the returned promise rejected with, only present, if it failed
+   */
+  error?: unknown;
+}
+
+export interface PullOptions<Detail = unknown> {
+  /**
+   * reject with a `TimeoutError`, if no matching event was dispatched after this amount of milliseconds
+   */
+  timeout?: number;
+  /**
+   * reject with an `AbortError`, when the signal is aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * only resolve with a detail, the filter returns true for
+   */
+  filter?: Fn<[detail: Detail], boolean>;
+}
+
+/**
+ * How `emitAsync` invokes the listeners:
+ * - `parallel`: all listeners are called right away and awaited together
+ * - `serial`: each listener is awaited before the next one is called
+ */
+export type EmitAsyncMode = "parallel" | "serial";
+
+export interface EmitAsyncOptions {
+  /**
+   * @default "parallel"
+   */
+  mode?: EmitAsyncMode;
+}
+
+/**
+ * Options for `emit` and `emitCancelable`
+ */
+export interface EmitOptions {
+  /**
+   * whether the event is passed on to the parents of the emitter after its own listeners were called.
+   * Capturing listeners of the parents are called before them either way
+   * @default false
+   */
+  bubbles?: boolean;
+  /**
+   * whether the event is passed on to parents beyond a boundary, see {@link ParentOptions.boundary}
+   * @default false
+   */
+  composed?: boolean;
+}
+
+/**
+ * Options for `setParent` and `attach`
+ */
+export interface ParentOptions {
+  /**
+   * whether the parent is outside of the child's boundary, like a shadow root's host in the DOM.
+   * Only events emitted with `composed: true` pass it
+   * @default false
+   */
+  boundary?: boolean;
+}
+
+/**
+ * The events of a child emitter, that aren't in the `CustomEventMap` of its parent with a compatible detail type
+ */
+type IncompatibleBubbledEvents<
+  ParentEvents extends CustomEventMap,
+  ChildEvents extends CustomEventMap,
+> = {
+  [Ev in keyof ChildEvents]: Ev extends keyof ParentEvents
+    ? [ChildEvents[Ev]] extends [ParentEvents[Ev]] ? never : Ev
+    : Ev;
+}[keyof ChildEvents];
+
+/**
+ * Intersected with the type of the child in `setParent` and `attach`: a child can only be attached to a parent,
+ * whose `CustomEventMap` includes all events of the child, so that the events captured by or bubbling to it are typed
+ */
+export type AcceptsBubbledEvents<
+  ParentEvents extends CustomEventMap,
+  ChildEvents extends CustomEventMap,
+> = [IncompatibleBubbledEvents<ParentEvents, ChildEvents>] extends [never]
+  ? unknown
+  : {
+    "events missing in the parent": IncompatibleBubbledEvents<
+      ParentEvents,
+      ChildEvents
+    >;
+  };
+
+/**
+ * What `events` does when an event is dispatched while its buffer is full:
+ * - `drop-oldest`: the oldest buffered detail is discarded
+ * - `drop-newest`: the new detail is discarded
+ * - `error`: the iterator throws after yielding the buffered details
+ */
+export type EventsOverflowStrategy = "drop-oldest" | "drop-newest" | "error";
+
+export interface EventsOptions {
+  /**
+   * stops the iteration and removes the listener when aborted
+   */
+  signal?: AbortSignal;
+  /**
+   * the maximum amount of details that are buffered while nobody is waiting for the next one
+   * @default Infinity
+   */
+  bufferSize?: number;
+  /**
+   * @default "error"
+   */
+  overflow?: EventsOverflowStrategy;
+}
 
 /**
  * Returns an untyped listener type if `T` is `never`; otherwise, returns `T`.
@@ -76,12 +416,267 @@ export type FallbackToUntypedListener<T> = [T] extends [never]
   : T;
 
 /**
- * The event names that are either in ReservedEvents or in UserEvents
+ * The detail of the built-in `error` event, which is emitted for errors thrown
+ * by listeners if the `errorPolicy` is `emit-error`.
+ */
+export interface ListenerErrorDetail {
+  /**
+   * the thrown error or the reason of the rejected promise
+   */
+  error: unknown;
+  /**
+   * the name of the event the listener was called for
+   */
+  type: EvName;
+  /**
+   * the detail of the event the listener was called for
+   */
+  detail: unknown;
+  /**
+   * the listener that threw
+   */
+  // deno-lint-ignore no-explicit-any
+  listener: Fn<any[], unknown>;
+}
+
+/**
+ * The detail of the built-in `maxListenersExceeded` event, which is emitted once per event,
+ * when it has more listeners than allowed by `setMaxListeners`.
+ */
+export interface MaxListenersExceededDetail {
+  /**
+   * the name of the event
+   */
+  type: EvName;
+  /**
+   * the number of listeners of the event
+   */
+  count: number;
+  /**
+   * the maximum number of listeners for the event
+   */
+  max: number;
+  /**
+   * the stack trace of the registration that exceeded the limit
+   */
+  stack?: string;
+}
+
+/**
+ * The detail of the built-in `validationFailed` event, which is emitted instead of an event with an invalid detail,
+ * if the `onInvalid` option is `emit`.
+ */
+export interface ValidationFailedDetail {
+  /**
+   * the name of the event that wasn't dispatched
+   */
+  type: EvName;
+  /**
+   * the invalid detail
+   */
+  detail: unknown;
+  /**
+   * the issues found by the validator
+   */
+  issues: ReadonlyArray<ValidationIssue>;
+}
+
+/**
+ * Reserved events every `EventEmitter` has
+ */
+export type BuiltInReservedEvents = {
+  error: ListenerErrorDetail;
+  maxListenersExceeded: MaxListenersExceededDetail;
+  validationFailed: ValidationFailedDetail;
+};
+
+/**
+ * The event names that are either in ReservedEvents (including the built-in reserved events) or in UserEvents
  */
 export type ReservedOrUserEventNames<
   ReservedEventsMap extends CustomEventMap,
   UserEvents extends CustomEventMap,
-> = EventNames<ReservedEventsMap> | EventNames<UserEvents>;
+> =
+  | EventNames<BuiltInReservedEvents>
+  | EventNames<ReservedEventsMap>
+  | EventNames<UserEvents>;
+
+/**
+ * Type of the detail of a user event or a reserved event. If `Ev` is in
+ * `ReservedEvents`, the detail of the reserved event is returned.
+ */
+export type ReservedOrUserEventDetail<
+  ReservedEvents extends CustomEventMap,
+  UserEvents extends CustomEventMap,
+  Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+> = Ev extends EventNames<BuiltInReservedEvents> ? BuiltInReservedEvents[Ev]
+  : Ev extends EventNames<ReservedEvents> ? ReservedEvents[Ev]
+  : Ev extends EventNames<UserEvents> ? UserEvents[Ev]
+  : never;
+
+/**
+ * An event name pattern: `*` matches exactly one segment, `**` matches any
+ * number of segments, e.g. `user.*` or `**`.
+ */
+export type EventNamePattern =
+  | "*"
+  | "**"
+  | `*.${string}`
+  | `**.${string}`
+  | `${string}.*`
+  | `${string}.**`
+  | `${string}.*.${string}`
+  | `${string}.**.${string}`;
+
+/**
+ * Splits an event name into its segments, e.g. `["user", "created"]`
+ */
+type EventNameSegments<S extends string> = S extends
+  `${infer Head}.${infer Tail}` ? [Head, ...EventNameSegments<Tail>]
+  : [S];
+
+type MatchSegments<
+  Name extends string[],
+  Pattern extends string[],
+> = Pattern extends ["**", ...infer Rest extends string[]]
+  ? Rest extends [] ? true
+  : MatchSegments<Name, Rest> extends true ? true
+  : Name extends [string, ...infer NameRest extends string[]]
+    ? MatchSegments<NameRest, Pattern>
+  : false
+  : Pattern extends [infer Head extends string, ...infer Rest extends string[]]
+    ? Name extends
+      [infer NameHead extends string, ...infer NameRest extends string[]]
+      ? Head extends "*" | NameHead ? MatchSegments<NameRest, Rest> : false
+    : false
+  : Name extends [] ? true
+  : false;
+
+/**
+ * Returns the union of all event names in `Names` that match `Pattern`.
+ * If `Names` is `string` (untyped emitter), every name matches.
+ */
+export type MatchingEventNames<
+  Names extends EvName,
+  Pattern extends EventNamePattern,
+> = string extends Names ? Names
+  : Names extends string ? MatchSegments<
+      EventNameSegments<Names>,
+      EventNameSegments<Pattern>
+    > extends true ? Names
+    : never
+  : never;
+
+/**
+ * A union of `[type, detail]` tuples for the events `Ev`, which allows to narrow
+ * the detail by checking the type.
+ */
+export type EventNameAndDetail<
+  ReservedEvents extends CustomEventMap,
+  UserEvents extends CustomEventMap,
+  Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+> = Ev extends unknown ? [
+    type: Ev,
+    detail: ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>,
+  ]
+  : never;
+
+/**
+ * Type of a listener added with a pattern. It gets called with the name and the
+ * detail of every event matching the pattern.
+ */
+export type PatternListener<
+  ReservedEvents extends CustomEventMap,
+  UserEvents extends CustomEventMap,
+  Pattern extends EventNamePattern,
+> = FallbackToUntypedListener<
+  [
+    EventNameAndDetail<
+      ReservedEvents,
+      UserEvents,
+      MatchingEventNames<
+        ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+        Pattern
+      >
+    >,
+  ] extends [never] ? never
+    : Fn<
+      EventNameAndDetail<
+        ReservedEvents,
+        UserEvents,
+        MatchingEventNames<
+          ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+          Pattern
+        >
+      >,
+      void
+    >
+>;
+
+/**
+ * The method of the owner of a listener added with `onWeak`: the name of a method of the owner
+ * or a function, that is called with the owner as `this`. It must not reference the owner itself,
+ * otherwise the owner can't be garbage-collected
+ */
+export type WeakListenerMethod<Owner extends object, Detail> =
+  | {
+    [K in keyof Owner]: Owner[K] extends
+      Fn<[detail: Detail, control: EventControl], unknown> ? K
+      : never;
+  }[keyof Owner]
+  | ((this: Owner, detail: Detail, control: EventControl) => void);
+
+/**
+ * Type of a listener added with `onAny`. It gets called with the name and the
+ * detail of every event.
+ */
+export type AnyListener<
+  ReservedEvents extends CustomEventMap,
+  UserEvents extends CustomEventMap,
+> = FallbackToUntypedListener<
+  [ReservedOrUserEventNames<ReservedEvents, UserEvents>] extends [never] ? never
+    : Fn<
+      EventNameAndDetail<
+        ReservedEvents,
+        UserEvents,
+        ReservedOrUserEventNames<ReservedEvents, UserEvents>
+      >,
+      void
+    >
+>;
+
+/**
+ * The context a middleware gets called with. It is a union over all events,
+ * so checking the `type` narrows the `detail`.
+ * The `detail` can be replaced to transform the event.
+ */
+export type EmitContext<
+  ReservedEvents extends CustomEventMap,
+  UserEvents extends CustomEventMap,
+  Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents> =
+    ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+> = Ev extends unknown ? {
+    readonly type: Ev;
+    detail: ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>;
+    /**
+     * whether the event was emitted with `emitReserved`
+     */
+    readonly reserved: boolean;
+  }
+  : never;
+
+/**
+ * A middleware, that is called for every emitted event.
+ * It can change `context.detail`, veto the event by not calling `next` and run
+ * code after the event was dispatched by calling `next` before.
+ */
+export type Middleware<
+  ReservedEvents extends CustomEventMap,
+  UserEvents extends CustomEventMap,
+> = Fn<
+  [context: EmitContext<ReservedEvents, UserEvents>, next: () => void],
+  void
+>;
 
 export type ReservedOrUserListenerParamsAddEventListener<
   ReservedEvents extends CustomEventMap,
@@ -100,8 +695,10 @@ export type ReservedOrUserListenerOn<
   UserEvents extends CustomEventMap,
   Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
 > = FallbackToUntypedListener<
-  Ev extends EventNames<ReservedEvents>
-    ? CustomEventCallbackOn<Ev, ReservedEvents[Ev]>
+  Ev extends EventNames<BuiltInReservedEvents>
+    ? CustomEventCallbackOn<Ev, BuiltInReservedEvents[Ev]>
+    : Ev extends EventNames<ReservedEvents>
+      ? CustomEventCallbackOn<Ev, ReservedEvents[Ev]>
     : Ev extends EventNames<UserEvents>
       ? CustomEventCallbackOn<Ev, UserEvents[Ev]>
     : never
@@ -112,21 +709,41 @@ export type ReservedOrUserListenerAddEventListener<
   UserEvents extends CustomEventMap,
   Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
 > = FallbackToUntypedListener<
-  Ev extends EventNames<ReservedEvents>
-    ? CustomEventCallbackAddEventListener<Ev, ReservedEvents[Ev]>
+  Ev extends EventNames<BuiltInReservedEvents>
+    ? CustomEventCallbackAddEventListener<Ev, BuiltInReservedEvents[Ev]>
+    : Ev extends EventNames<ReservedEvents>
+      ? CustomEventCallbackAddEventListener<Ev, ReservedEvents[Ev]>
     : Ev extends EventNames<UserEvents>
       ? CustomEventCallbackAddEventListener<Ev, UserEvents[Ev]>
     : never
 >;
 
+/**
+ * The callback the user added and the callback that is called, an entry of a {@link CustomEventListenerMap}
+ */
+export type CustomEventListenerEntry<
+  ReservedEvents extends CustomEventMap,
+  UserEvents extends CustomEventMap,
+> = [
+  callback: unknown,
+  listener: ReservedOrUserListenerAddEventListener<
+    ReservedEvents,
+    UserEvents,
+    ReservedOrUserEventNames<ReservedEvents, UserEvents>
+  >,
+];
+
 export type ReservedOrUserListenerOnOrAddEventListener<
   ReservedEvents extends CustomEventMap,
   UserEvents extends CustomEventMap,
   Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
 > = FallbackToUntypedListener<
-  Ev extends EventNames<ReservedEvents> ?
-      | CustomEventCallbackAddEventListener<Ev, ReservedEvents[Ev]>
-      | CustomEventCallbackOn<Ev, ReservedEvents[Ev]>
+  Ev extends EventNames<BuiltInReservedEvents> ?
+      | CustomEventCallbackAddEventListener<Ev, BuiltInReservedEvents[Ev]>
+      | CustomEventCallbackOn<Ev, BuiltInReservedEvents[Ev]>
+    : Ev extends EventNames<ReservedEvents> ?
+        | CustomEventCallbackAddEventListener<Ev, ReservedEvents[Ev]>
+        | CustomEventCallbackOn<Ev, ReservedEvents[Ev]>
     : Ev extends EventNames<UserEvents> ?
         | CustomEventCallbackAddEventListener<Ev, UserEvents[Ev]>
         | CustomEventCallbackOn<Ev, UserEvents[Ev]>
@@ -146,3 +763,344 @@ export type ReservedOrUserListenerAddEventListenerParams<
 > = Parameters<
   ReservedOrUserListenerAddEventListener<ReservedEvents, UserEvents, Ev>
 >[0];
+
+/**
+ * Something messages can be posted to and received from, like a `MessagePort`, a `BroadcastChannel`, a `Worker`
+ * or the global scope of a worker
+ */
+export interface BridgeTarget {
+  postMessage(message: unknown): void;
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void,
+  ): void;
+  removeEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void,
+  ): void;
+  /**
+   * `MessagePort`s have to be started to receive messages
+   */
+  start?(): void;
+}
+
+export interface BridgeOptions<UserEvents extends CustomEventMap> {
+  /**
+   * the events that are forwarded in both directions.
+   * Their details must be cloneable with the structured clone algorithm, symbols can't be forwarded
+   */
+  events: Extract<EventNames<UserEvents>, string>[];
+}
+
+/**
+ * The message posted by a bridge
+ */
+export interface BridgeMessage {
+  evtemitter: {
+    /**
+     * the id of the message, to drop it when it is received again
+     */
+    id: string;
+    /**
+     * the id of the emitter the event was emitted by first, to drop it when it comes back in a loop
+     */
+    origin: string;
+    type: string;
+    detail: unknown;
+  };
+}
+
+/**
+ * The serializable form of an event: its name, its detail and optional metadata
+ */
+export interface EventEnvelope<
+  Events extends CustomEventMap = CustomEventMap,
+  Ev extends EventNames<Events> = EventNames<Events>,
+> {
+  type: Ev;
+  detail: Events[Ev];
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Converts the detail of an event to a value the codec can serialize and back
+ */
+export interface DetailEncoder<Detail> {
+  encode: Fn<[detail: Detail], unknown>;
+  // deno-lint-ignore no-explicit-any
+  decode: Fn<[value: any], Detail>;
+}
+
+export interface CodecOptions<Events extends CustomEventMap> {
+  /**
+   * custom encoders for the details of specific events, e.g. for class instances
+   */
+  encoders?: { [Ev in EventNames<Events>]?: DetailEncoder<Events[Ev]> };
+}
+
+/**
+ * The names the piped events are emitted with on the target
+ */
+export type PipeRename<
+  Ev extends EvName,
+  TargetEvents extends CustomEventMap,
+> = { [E in Ev]?: EventNames<TargetEvents> };
+
+/**
+ * The name a piped event is emitted with on the target
+ */
+export type PipedEventName<Ev extends EvName, Rename> = Ev extends keyof Rename
+  ? Exclude<Rename[Ev], undefined>
+  : Ev;
+
+/**
+ * Converts the detail of a piped event to the detail of the event on the target
+ */
+export type PipeTransform<
+  ReservedEvents extends CustomEventMap,
+  UserEvents extends CustomEventMap,
+  TargetEvents extends CustomEventMap,
+  Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  Rename,
+> = Fn<
+  [detail: ReservedOrUserEventDetail<ReservedEvents, UserEvents, Ev>],
+  TargetEvents[PipedEventName<Ev, Rename> & keyof TargetEvents]
+>;
+
+/**
+ * The piped events, whose details aren't accepted by the target without a transform
+ */
+type IncompatiblePipedEvents<
+  ReservedEvents extends CustomEventMap,
+  UserEvents extends CustomEventMap,
+  TargetEvents extends CustomEventMap,
+  Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  Rename,
+> = {
+  [E in Ev]: PipedEventName<E, Rename> extends keyof TargetEvents
+    ? [ReservedOrUserEventDetail<ReservedEvents, UserEvents, E>] extends
+      [TargetEvents[PipedEventName<E, Rename>]] ? never
+    : E
+    : E;
+}[Ev];
+
+export type PipeOptions<
+  ReservedEvents extends CustomEventMap,
+  UserEvents extends CustomEventMap,
+  TargetEvents extends CustomEventMap,
+  Ev extends ReservedOrUserEventNames<ReservedEvents, UserEvents>,
+  Rename,
+> =
+  & {
+    /**
+     * the events to pipe
+     */
+    events: Ev[];
+    /**
+     * the names the events are emitted with on the target, by default they keep their name
+     */
+    rename?: Rename;
+  }
+  // a transform is required for the events, whose details the target doesn't accept
+  & ([
+    IncompatiblePipedEvents<
+      ReservedEvents,
+      UserEvents,
+      TargetEvents,
+      Ev,
+      Rename
+    >,
+  ] extends [never] ? {
+      /**
+       * functions converting the details of the events to the details the target expects
+       */
+      transform?: {
+        [E in Ev]?: PipeTransform<
+          ReservedEvents,
+          UserEvents,
+          TargetEvents,
+          E,
+          Rename
+        >;
+      };
+    }
+    : {
+      /**
+       * functions converting the details of the events to the details the target expects
+       */
+      transform:
+        & {
+          [E in Ev]?: PipeTransform<
+            ReservedEvents,
+            UserEvents,
+            TargetEvents,
+            E,
+            Rename
+          >;
+        }
+        & {
+          [
+            E in IncompatiblePipedEvents<
+              ReservedEvents,
+              UserEvents,
+              TargetEvents,
+              Ev,
+              Rename
+            >
+          ]: PipeTransform<
+            ReservedEvents,
+            UserEvents,
+            TargetEvents,
+            E,
+            Rename
+          >;
+        };
+    });
+
+/**
+ * Subscribes to the values of a stream and returns a function that unsubscribes
+ */
+export type StreamSource<T> = Fn<
+  [next: Fn<[value: T], void>],
+  Fn<never[], void>
+>;
+
+/**
+ * The events of a `CustomEventMap`, whose detail accepts a value
+ */
+export type EventNamesAccepting<Events extends CustomEventMap, T> = {
+  [Ev in EventNames<Events>]: [T] extends [Events[Ev]] ? Ev : never;
+}[EventNames<Events>];
+
+/**
+ * The request/response pairs of an `RpcEmitter`, the key is the name of the method
+ */
+export type RpcMethods = Record<
+  EvName,
+  { request: unknown; response: unknown }
+>;
+
+/**
+ * The detail of the `rpc.request` event
+ */
+export interface RpcRequest {
+  id: string;
+  method: EvName;
+  detail: unknown;
+}
+
+/**
+ * The detail of the `rpc.response` event
+ */
+export type RpcResponse =
+  & { id: string; method: EvName }
+  & (
+    | { ok: true; result: unknown }
+    | {
+      ok: false;
+      code: RpcErrorCode;
+      error?: { name: string; message: string };
+    }
+  );
+
+/**
+ * Why a request failed:
+ * - `no-handler`: there is no handler for the method and no other emitter receives the request,
+ *   or only emitters without a handler answered before the timeout
+ * - `handler-failed`: the handler threw or rejected
+ * - `timeout`: nobody answered before the timeout
+ */
+export type RpcErrorCode = "no-handler" | "handler-failed" | "timeout";
+
+/**
+ * The events an `RpcEmitter` sends the requests and responses with.
+ * Forward them to use an `RpcEmitter` across a transport like `bridge`
+ */
+export type RpcEvents = {
+  "rpc.request": RpcRequest;
+  "rpc.response": RpcResponse;
+};
+
+export interface RequestOptions {
+  /**
+   * reject with a `RpcError`, if there was no response after this amount of milliseconds
+   * @default RpcEmitter.defaultTimeout
+   */
+  timeout?: number;
+  /**
+   * reject with an `AbortError`, when the signal is aborted
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * An event recorded by a spy, see `spyOnEmitter`
+ */
+export type EmittedEvent<Events extends CustomEventMap> = {
+  [Ev in EventNames<Events>]: { type: Ev; detail: Events[Ev] };
+}[EventNames<Events>];
+
+/**
+ * Records the events dispatched by an emitter, see `spyOnEmitter`
+ */
+export interface EmitterSpy<Events extends CustomEventMap> {
+  /**
+   * the recorded events, in the order they were dispatched
+   */
+  readonly events: EmittedEvent<Events>[];
+  /**
+   * stop recording events and remove the any-listener of the spy from the emitter
+   */
+  restore(): void;
+}
+
+export interface ExpectEventOptions<Detail = unknown> {
+  /**
+   * fail, if the event wasn't dispatched after this amount of milliseconds
+   * @default 1000
+   */
+  timeout?: number;
+  /**
+   * only events whose detail passes the filter count
+   */
+  filter?: (detail: Detail) => boolean;
+}
+
+/**
+ * A function removing a listener, that can be used with `using` as well
+ */
+export type Unsubscribe = Fn<never[], void> & Disposable;
+
+export interface ScopeOptions {
+  /**
+   * disposes the scope when aborted
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * The event names a `StrictEmitter` accepts at runtime, every event of the maps has to be declared.
+ * A template literal key can only be declared with the concrete names the emitter uses
+ */
+export type EventDeclarations<
+  UserEvents extends CustomEventMap,
+  ReservedEvents extends CustomEventMap,
+> =
+  & {
+    /**
+     * the user-defined events
+     */
+    user: { [Ev in EventNames<UserEvents>]: true };
+  }
+  & ([EventNames<ReservedEvents>] extends [never] ? {
+      /**
+       * the reserved events, only emitted with `emitReserved`
+       */
+      reserved?: Record<never, never>;
+    }
+    : {
+      /**
+       * the reserved events, only emitted with `emitReserved`
+       */
+      reserved: { [Ev in EventNames<ReservedEvents>]: true };
+    });